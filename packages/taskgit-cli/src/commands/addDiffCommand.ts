@@ -1,6 +1,168 @@
-import { confirm } from '@guiurm/askly';
-import { AppError, CacheStore, DiffService, ErrorHandler, exeCommand } from '@guiurm/taskgit-core';
+import { confirm, question, select } from '@guiurm/askly';
+import { AppError, DiffHunk, DiffOutputFile, ErrorHandler, Repository } from '@guiurm/taskgit-core';
 import { genCommand } from '@guiurm/termify';
+import { relative, resolve } from 'node:path';
+
+/**
+ * Parses a list of line numbers and ranges such as `1,3-5`.
+ *
+ * @returns The line numbers, or null if the list is not valid or a number is out of the 1..max range.
+ */
+const parseLineSelection = (answer: string, max: number): number[] | null => {
+    const numbers: number[] = [];
+    for (const part of answer.split(',').map(p => p.trim())) {
+        const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+        if (!match) return null;
+        const from = Number(match[1]);
+        const to = Number(match[2] ?? match[1]);
+        if (from < 1 || to > max || from > to) return null;
+        for (let n = from; n <= to; n++) numbers.push(n);
+    }
+    return numbers;
+};
+
+/**
+ * What the selected changes are used for: staged from the working tree, unstaged from the index, or discarded
+ * from the working tree.
+ */
+type TReviewAction = 'stage' | 'unstage' | 'discard';
+
+const pickLines = async (hunk: DiffHunk, action: TReviewAction): Promise<number[]> => {
+    const changes = hunk.changes;
+    changes.forEach((index, n) => {
+        const line = hunk.lines[index];
+        console.log(`${String(n + 1).padStart(4)} ${line.type === 'added' ? '+' : '-'}${line.content}`);
+    });
+
+    while (true) {
+        const answer = await question({ message: `Lines to ${action}, e.g. 1,3-5 (1-${changes.length}): ` });
+        const numbers = parseLineSelection(answer, changes.length);
+        if (numbers) return numbers.map(n => changes[n - 1]);
+        console.log(`'${answer}' is not a valid list of lines.`);
+    }
+};
+
+/**
+ * Asks for a regular expression until a valid one is given.
+ */
+const askPattern = async (): Promise<RegExp> => {
+    while (true) {
+        const answer = await question({ message: 'Search for a hunk matching the regex: ' });
+        try {
+            return new RegExp(answer);
+        } catch {
+            console.log(`'${answer}' is not a valid regular expression.`);
+        }
+    }
+};
+
+const selectionState = (hunk: DiffHunk): string => {
+    if (hunk.isFullySelected) return ' (selected)';
+    return hunk.hasSelection ? ' (partly selected)' : '';
+};
+
+/**
+ * Describes the change of a file beyond its hunks, see {@link DiffOutputFile#hasHeaderChange}.
+ */
+const describeHeader = (file: DiffOutputFile): string => {
+    const changes: string[] = [];
+    const kind = file.isBinary ? 'binary' : 'empty';
+    if (file.status === 'added') changes.push(`create the ${kind} file`);
+    else if (file.status === 'deleted') changes.push(`delete the ${kind} file`);
+    else if (file.status === 'renamed') changes.push(`rename ${file.oldPath} to ${file.newPath}`);
+    else if (file.status === 'copied') changes.push(`copy ${file.oldPath} to ${file.newPath}`);
+
+    if (file.oldMode && file.newMode && file.oldMode !== file.newMode)
+        changes.push(`change the mode from ${file.oldMode} to ${file.newMode}`);
+    if (file.isBinary && file.status !== 'added' && file.status !== 'deleted')
+        changes.push('change the binary content');
+    return changes.join(', ');
+};
+
+/**
+ * Walks the hunks of the files with a menu per hunk, selecting the changes the action is applied to. A file that
+ * changes beyond its hunks, such as a rename or a mode change, gets a menu for that change first. The hunks can be
+ * visited again, so the menu shows whether a hunk is already selected. Splitting a hunk replaces it with its
+ * smaller hunks in place.
+ *
+ * @returns Once every hunk has been visited or the user quits.
+ */
+const reviewHunks = async (files: DiffOutputFile[], action: TReviewAction): Promise<void> => {
+    const Action = action.charAt(0).toUpperCase() + action.slice(1);
+    const queues = files.map(file => [...file.hunks]);
+    // Every item as [file, hunk] indexes, in the order they are reviewed. The change of the file itself is -1
+    const positions = () =>
+        files.flatMap((file, f) => {
+            const hunks = queues[f].map((_, h) => h);
+            return (file.hasHeaderChange ? [-1, ...hunks] : hunks).map((h): [number, number] => [f, h]);
+        });
+    const matches = ([f, h]: [number, number], pattern: RegExp) =>
+        h === -1 ? pattern.test(describeHeader(files[f])) : queues[f][h].lines.some(line => pattern.test(line.content));
+    let p = 0;
+
+    while (p < positions().length) {
+        const all = positions();
+        const [f, h] = all[p];
+        const file = files[f];
+        const hunks = queues[f];
+        const hunk = h === -1 ? null : hunks[h];
+        const pieces = hunk ? hunk.split() : [];
+        const subject = hunk ? 'hunk' : 'change';
+        const nextFile = all.findIndex(([other]) => other > f);
+        const state = hunk ? selectionState(hunk) : file.headerSelected ? ' (selected)' : '';
+
+        if (hunk) {
+            console.log(`\nHunk ${h + 1}/${hunks.length} in ${file.fileName}, file ${f + 1}/${files.length}`);
+            console.log(hunk.toString());
+        } else {
+            console.log(`\nChange of ${file.fileName}, file ${f + 1}/${files.length}`);
+            console.log(describeHeader(file));
+        }
+
+        const { value } = await select({
+            message: `${Action} this ${subject}?${state}`,
+            choices: [
+                { name: `Yes, ${action} this ${subject}`, value: 'accept' },
+                { name: `No, skip this ${subject}`, value: 'skip' },
+                ...(pieces.length > 1 ? [{ name: `Split into ${pieces.length} smaller hunks`, value: 'split' }] : []),
+                ...(hunk ? [{ name: `Pick the lines to ${action}`, value: 'lines' }] : []),
+                ...(p > 0 ? [{ name: 'Go back to the previous hunk', value: 'back' }] : []),
+                { name: `${Action} this ${subject} and the rest of the file`, value: 'acceptFile' },
+                { name: `Skip this ${subject} and the rest of the file`, value: 'skipFile' },
+                ...(nextFile !== -1
+                    ? [{ name: 'Go to the next file, leaving the rest as is', value: 'nextFile' }]
+                    : []),
+                { name: 'Search for a hunk', value: 'search', description: 'Jumps to the next hunk matching a regex' },
+                { name: 'Quit', value: 'quit', description: `${Action}s what has been selected so far` }
+            ]
+        });
+
+        if (value === 'accept' || value === 'skip') {
+            if (!hunk) file.headerSelected = value === 'accept';
+            else if (value === 'accept') hunk.select();
+            else hunk.unselect();
+        } else if (value === 'acceptFile' || value === 'skipFile') {
+            if (!hunk) file.headerSelected = value === 'acceptFile';
+            const rest = hunks.slice(Math.max(h, 0));
+            if (value === 'acceptFile') rest.forEach(other => other.select());
+            else rest.forEach(other => other.unselect());
+        } else if (value === 'split') hunks.splice(h, 1, ...pieces);
+        else if (value === 'lines' && hunk) hunk.unselect().select(await pickLines(hunk, action));
+        else if (value === 'quit') return;
+
+        if (value === 'accept' || value === 'skip' || value === 'lines') p++;
+        else if (value === 'acceptFile' || value === 'skipFile' || value === 'nextFile')
+            p = nextFile === -1 ? all.length : nextFile;
+        else if (value === 'back') p--;
+        else if (value === 'search') {
+            const pattern = await askPattern();
+            // Starts after the current hunk and wraps around to the first file
+            const found = [...all.slice(p + 1), ...all.slice(0, p + 1)].find(position => matches(position, pattern));
+            if (found) p = all.indexOf(found);
+            else console.log(`No hunk matches ${pattern}.`);
+        }
+    }
+};
 
 const diffPickCommand = genCommand({
     name: 'add-diff',
@@ -11,46 +173,95 @@ const diffPickCommand = genCommand({
             optionType: 'string',
             name: 'file',
             flag: '--file'
+        },
+        {
+            name: 'recover',
+            optionType: 'boolean',
+            flag: '--recover',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'untracked',
+            optionType: 'boolean',
+            flag: '-u',
+            alias: ['--untracked'],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'staged',
+            optionType: 'boolean',
+            flag: '--staged',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'discard',
+            optionType: 'boolean',
+            flag: '--discard',
+            alias: [],
+            required: false,
+            defaultValue: false
         }
     ]
 });
 
-diffPickCommand.action(async ({ file }) => {
-    const diff = await DiffService.parseGitDiffOutput({ file });
-
-    if (diff.length === 0) ErrorHandler.throw(new AppError(`No diff found for '${file}'.`));
-    for (const fileDiff of diff) {
-        console.log(`In file ${fileDiff.file}`);
-        console.log(fileDiff.aFile);
-        console.log(fileDiff.bFile + '\n');
-        for (const hunk of fileDiff.hunks) {
-            console.log(hunk);
-            const answer = await confirm('Add this hunk?');
-            if (answer) fileDiff.acceptedHunks.push(hunk);
-            else fileDiff.ignoredHunks.push(hunk);
-        }
+diffPickCommand.action(async ({ file, recover, untracked, staged, discard }) => {
+    const repository = await Repository.open();
 
-        if (fileDiff.acceptedHunks.length === 0) continue;
+    if (recover) {
+        const results = await repository.staging.recover();
+        if (results.length === 0) console.log('Nothing to recover.');
+        results.forEach(result => {
+            if (result.status === 'restored') console.log(`Restored ${result.filePath}`);
+            else console.log(`Could not restore ${result.filePath}, its changes are kept in ${result.patchFile}`);
+        });
+        return;
+    }
+
+    if (staged && discard)
+        ErrorHandler.throw(new AppError("The '--staged' and '--discard' options cannot be combined."));
+    if (staged && untracked)
+        ErrorHandler.throw(new AppError("The '--staged' and '--untracked' options cannot be combined."));
+    const action: TReviewAction = staged ? 'unstage' : discard ? 'discard' : 'stage';
 
-        const cache = new CacheStore();
-        const file = cache.getFileCache(
-            cache.createPatchCache({
-                acceptedDiff: fileDiff.getAcceptedDiffPatch() as string,
-                filePath: fileDiff.file,
-                originalDiff: fileDiff.getTotalDiffPatch(),
-                ignoredDiff: fileDiff.getIgnoredDiffPatch() ?? undefined
-            })
+    if (await repository.staging.hasInterruptedRun())
+        ErrorHandler.throw(
+            new AppError(
+                "The previous 'add-diff' did not finish. Run 'taskgit add-diff --recover' to restore its files."
+            )
         );
+    await repository.staging.startRun();
 
-        await exeCommand(`git checkout ${fileDiff.fileName}`);
-        await exeCommand(`git apply ${file.acceptedChanges.cacheFilePath}`, async () => {
-            await exeCommand(`git apply ${file.originalState.cacheFilePath}`);
-            return true;
-        });
-        await exeCommand(`git add ${fileDiff.fileName}`);
-        if (file.ignoredChanges) await exeCommand(`git apply ${file.ignoredChanges.cacheFilePath}`);
+    const path = file ? relative(repository.root, resolve(file)) : undefined;
+    const diff = await repository.diff.parseGitDiffOutput({ file: path, cached: staged });
+    if (untracked) {
+        const paths = await repository.report.listUntrackedFiles();
+        const matching = paths.filter(p => !path || p === path || p.startsWith(`${path}/`));
+        diff.push(...(await repository.diff.parseUntrackedFiles(matching)));
+    }
 
-        cache.clearFileCache(file.hash);
+    if (diff.length === 0) ErrorHandler.throw(new AppError(`No diff found${file ? ` for '${file}'` : ''}.`));
+    await reviewHunks(diff, action);
+
+    if (action === 'stage') for (const fileDiff of diff) await repository.staging.stage(fileDiff);
+    else if (action === 'unstage') for (const fileDiff of diff) await repository.staging.unstage(fileDiff);
+    else {
+        const selected = diff.filter(fileDiff => fileDiff.getAcceptedDiffPatch() !== null);
+        if (selected.length === 0) return;
+
+        const names = selected.map(fileDiff => fileDiff.fileName).join(', ');
+        if (!(await confirm(`Discard the selected changes of ${names}? They are removed from the working tree.`)))
+            return;
+
+        for (const fileDiff of selected) {
+            const backup = await repository.staging.discard(fileDiff);
+            if (backup)
+                console.log(`The discarded changes of ${fileDiff.fileName} are saved in ${backup.cacheFilePath}`);
+        }
     }
 });
 
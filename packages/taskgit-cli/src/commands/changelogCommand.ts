@@ -1,5 +1,6 @@
-import { ChangeLogService, FilesReportService } from '@guiurm/taskgit-core';
+import { ChangeLogService } from '@guiurm/taskgit-core';
 import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
 
 const changelogCommand = genCommand({
     name: 'changelog',
@@ -22,7 +23,28 @@ const changelogCommand = genCommand({
             flag: '-b',
             alias: ['--branch'],
             optionType: 'string'
-        }
+        },
+        {
+            name: 'version',
+            flag: '--version',
+            alias: [],
+            optionType: 'string'
+        },
+        {
+            name: 'unreleased',
+            flag: '--unreleased',
+            alias: [],
+            optionType: 'boolean',
+            defaultValue: false
+        },
+        {
+            name: 'force',
+            flag: '--force',
+            alias: [],
+            optionType: 'boolean',
+            defaultValue: false
+        },
+        formatOption
     ] as const,
     args: [
         {
@@ -33,11 +55,18 @@ const changelogCommand = genCommand({
     ] as const
 });
 
-changelogCommand.action(async ({ from, to, branch }, { outputFile }) => {
-    const commits = await FilesReportService.log({ to, from, branch });
-    ChangeLogService.generateChangelog({ commits, version: '1.0.0', outputFile });
+changelogCommand.action(async ({ from, to, branch, version, unreleased, force, format }, { outputFile }) => {
+    const release = await ChangeLogService.resolveRelease({ from, to, branch, version, unreleased });
+    const { commits } = release;
+    ChangeLogService.generateChangelog({ commits, version: release.version, outputFile, force });
 
-    console.log(`New release notes in: ${outputFile ?? 'changelog.md'}`);
+    printOutput(format, {
+        text: () => {
+            const since = release.from ? ` since ${release.from}` : '';
+            return `New release notes for ${release.version} (${commits.length} commits${since}) in: ${outputFile}`;
+        },
+        document: () => ChangeLogService.toDocument({ commits, version: release.version })
+    });
 });
 
 export { changelogCommand };
@@ -1,14 +1,15 @@
 import { confirm, question, select } from '@guiurm/askly';
 import {
     AppError,
+    CommitService,
     ConfigService,
+    ConventionalCommitBuilder,
     ErrorHandler,
     ExternalServiceError,
     FilesReportService,
-    exeCommand
+    ProjectConfigService
 } from '@guiurm/taskgit-core';
 import { genCommand } from '@guiurm/termify';
-import { COMMIT_STANDARD_TYPES } from '../globals';
 
 const commitCommand = genCommand({
     name: 'commit',
@@ -23,14 +24,28 @@ const commitCommand = genCommand({
             required: false,
 
             customValidator: n => {
-                if (
-                    !COMMIT_STANDARD_TYPES.map(t => t.name).includes(
-                        n as (typeof COMMIT_STANDARD_TYPES)[number]['name']
-                    )
-                )
+                const { types } = ProjectConfigService.load();
+                if (!types.map(t => t.name).includes(n))
                     return {
                         error: true,
-                        message: `${n} is not a valid standard commit type. Valid types are ${COMMIT_STANDARD_TYPES.map(t => t.name).join(', ')}`
+                        message: `${n} is not a valid standard commit type. Valid types are ${types.map(t => t.name).join(', ')}`
+                    };
+                else return { error: false };
+            }
+        },
+        {
+            name: 'scope',
+            optionType: 'string',
+            flag: '-s',
+            alias: ['--scope'],
+            required: false,
+
+            customValidator: n => {
+                const { scopes } = ProjectConfigService.load();
+                if (scopes.length > 0 && !scopes.includes(n))
+                    return {
+                        error: true,
+                        message: `${n} is not a valid scope. Valid scopes are ${scopes.join(', ')}`
                     };
                 else return { error: false };
             }
@@ -51,6 +66,50 @@ const commitCommand = genCommand({
 
             required: false
         },
+        {
+            name: 'noBody',
+            optionType: 'boolean',
+            flag: '--no-body',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'breaking',
+            optionType: 'boolean',
+            flag: '--breaking',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'breakingChange',
+            optionType: 'string',
+            flag: '--breaking-change',
+            alias: [],
+            required: false
+        },
+        {
+            name: 'closes',
+            optionType: 'string',
+            flag: '--closes',
+            alias: [],
+            required: false
+        },
+        {
+            name: 'refs',
+            optionType: 'string',
+            flag: '--refs',
+            alias: [],
+            required: false
+        },
+        {
+            name: 'trailer',
+            optionType: 'string',
+            flag: '--trailer',
+            alias: [],
+            required: false
+        },
         {
             name: 'ammend',
             optionType: 'boolean',
@@ -58,13 +117,46 @@ const commitCommand = genCommand({
             alias: ['--ammend'],
             required: false,
             defaultValue: false
+        },
+        {
+            name: 'yes',
+            optionType: 'boolean',
+            flag: '-y',
+            alias: ['--yes'],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'noInteractive',
+            optionType: 'boolean',
+            flag: '--no-interactive',
+            alias: [],
+            required: false,
+            defaultValue: false
         }
     ]
 });
 
-commitCommand.action(async ({ body, title, type, ammend }) => {
+const requireOption = (value: string | undefined, option: string) => {
+    if (!value)
+        ErrorHandler.throw(
+            new AppError(
+                `Missing required option ${option}. It cannot be asked for because the commit runs non-interactively (--no-interactive or no TTY available).`
+            )
+        );
+};
+
+commitCommand.action(async options => {
+    let { body, title, type, ammend, breaking, breakingChange, closes, refs } = options;
+    const { scope, trailer, noBody, yes, noInteractive } = options;
     const report = await FilesReportService.filesReport();
-    if (report.stagedReport() === '') {
+    if (report.conflicts.length > 0)
+        ErrorHandler.throw(
+            new AppError(
+                `There are unresolved conflicts in ${report.conflicts.map(c => c.path).join(', ')}.\nResolve them and stage the files before committing.`
+            )
+        );
+    if (!report.hasStagedChanges) {
         ErrorHandler.throw(
             new AppError(
                 "There are no files staged for commit, first add some.\nIt appears that you haven't added any files to the staging area. Please use git add <file> to stage your changes before committing."
@@ -72,29 +164,68 @@ commitCommand.action(async ({ body, title, type, ammend }) => {
         );
     }
 
-    let target = '';
+    const { types, scopes, prompts } = ProjectConfigService.load();
+    const interactive = !noInteractive && !!process.stdin.isTTY;
+    let target = scope ?? '';
+
+    if (!interactive) {
+        requireOption(type, '-t/--type');
+        requireOption(title, '-m/--title');
+    }
 
     if (!type)
         try {
             type = (
                 await select({
-                    choices: COMMIT_STANDARD_TYPES.map(t => ({
+                    choices: types.map(t => ({
                         name: `${t.icon} ${t.name}`,
                         value: t.name,
                         description: t.description
                     })),
-                    message: 'Select type: '
+                    message: prompts.type
                 })
             ).value;
         } catch (error) {
             ErrorHandler.throw(new ExternalServiceError('Error obtaining commit info bia cly', 'askly'));
         }
 
-    target = await question({ message: 'Target: ' });
-    if (!title) title = await question({ message: 'Title: ' });
-    if (!body) body = await question({ message: 'Body: ' });
-    if (ammend) ammend = (await confirm('Ammend commit?')) as boolean;
-    target = target ? `(${target})` : target;
+    if (interactive && scope === undefined) {
+        if (scopes.length > 0)
+            target = (
+                await select({
+                    choices: [{ name: '(none)', value: '' }, ...scopes.map(s => ({ name: s, value: s }))],
+                    message: prompts.scope
+                })
+            ).value;
+        else target = await question({ message: prompts.scope });
+    }
+    if (!title) title = await question({ message: prompts.title });
+    if (interactive) {
+        if (!body && !noBody) body = await question({ message: prompts.body });
+        if (!breaking && !breakingChange) breaking = (await confirm(prompts.breaking)) as boolean;
+        if (breaking && !breakingChange) breakingChange = await question({ message: prompts.breakingChange });
+        if (!closes && !refs) refs = await question({ message: prompts.refs });
+        if (ammend && !yes) ammend = (await confirm('Ammend commit?')) as boolean;
+    }
+    if (noBody) body = undefined;
+
+    const trailers = [
+        ...ConventionalCommitBuilder.issueTrailers('Closes', closes ?? ''),
+        ...ConventionalCommitBuilder.issueTrailers('Refs', refs ?? ''),
+        ...(trailer ?? '')
+            .split(';')
+            .filter(t => t.trim().length > 0)
+            .map(t => ConventionalCommitBuilder.parseTrailer(t))
+    ];
+    const message = ConventionalCommitBuilder.build({
+        type: type as string,
+        scope: target,
+        subject: title,
+        body,
+        breaking,
+        breakingChange,
+        trailers
+    });
 
     const author = await ConfigService.getUser();
     console.log('\nauthor: ', author.toString());
@@ -102,13 +233,14 @@ commitCommand.action(async ({ body, title, type, ammend }) => {
     console.log('type: ', type);
     console.log('title: ', title);
     console.log('body: ', body);
+    console.log('breaking: ', breaking || !!breakingChange);
+    if (trailers.length > 0) console.log('trailers: ', trailers.map(t => `${t.key}: ${t.value}`).join(', '));
 
     console.log('\n', report.stagedReport());
 
-    if (await confirm('Is this correct?')) {
+    if (!interactive || yes || (await confirm('Is this correct?'))) {
         console.log('\nCommitting...');
-        const command = `git commit ${ammend ? '--amend' : ''} -m "${type}${target}: ${title}" ${body ? `-m "${body}"` : ''}`;
-        const result = await exeCommand(command);
+        const result = await CommitService.commit(message, { amend: ammend });
         console.log('result:');
         console.log(result);
     } else {
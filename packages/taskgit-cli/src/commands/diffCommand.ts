@@ -0,0 +1,200 @@
+import {
+    AppError,
+    ErrorHandler,
+    GitDiffOptions,
+    OUTPUT_SCHEMA_VERSION,
+    Repository,
+    TDiffNumstat,
+    TDiffRawEntry,
+    TDiffShortstat,
+    TWordDiffFile
+} from '@guiurm/taskgit-core';
+import { genCommand } from '@guiurm/termify';
+import { relative, resolve } from 'node:path';
+import { formatOption, printOutput } from '../output';
+
+const validViews = ['patch', 'numstat', 'raw', 'shortstat', 'words'] as const;
+type TDiffView = (typeof validViews)[number];
+
+const RAW_STATUS_LETTERS: Record<TDiffRawEntry['status'], string> = {
+    added: 'A',
+    deleted: 'D',
+    modified: 'M',
+    renamed: 'R',
+    copied: 'C',
+    typeChanged: 'T',
+    unmerged: 'U',
+    unknown: 'X'
+};
+
+/**
+ * Renders the lines changed in every file as `git diff --numstat` does.
+ */
+const renderNumstat = (stats: TDiffNumstat[]) =>
+    stats
+        .map(({ path, oldPath, added, removed }) => {
+            const file = oldPath ? `${oldPath} => ${path}` : path;
+            return `${added ?? '-'}\t${removed ?? '-'}\t${file}`;
+        })
+        .join('\n');
+
+/**
+ * Renders the entry of every file as `git diff --raw` does, with abbreviated objects.
+ */
+const renderRaw = (entries: TDiffRawEntry[]) =>
+    entries
+        .map(entry => {
+            const status = `${RAW_STATUS_LETTERS[entry.status]}${entry.score ?? ''}`;
+            const objects = `${entry.oldObject.slice(0, 7)} ${entry.newObject.slice(0, 7)}`;
+            const paths = entry.oldPath === entry.newPath ? entry.newPath : `${entry.oldPath}\t${entry.newPath}`;
+            return `:${entry.oldMode} ${entry.newMode} ${objects} ${status}\t${paths}`;
+        })
+        .join('\n');
+
+/**
+ * Renders the totals as `git diff --shortstat` does.
+ */
+const renderShortstat = ({ filesChanged, insertions, deletions }: TDiffShortstat) =>
+    filesChanged === 0
+        ? ''
+        : `${filesChanged} file${filesChanged === 1 ? '' : 's'} changed, ${insertions} insertion${insertions === 1 ? '' : 's'}(+), ${deletions} deletion${deletions === 1 ? '' : 's'}(-)`;
+
+/**
+ * Renders the changed words of every hunk as `git diff --word-diff=plain` does: `[-removed-]` and `{+added+}`.
+ */
+const renderWords = (files: TWordDiffFile[]) =>
+    files
+        .map(file => {
+            const hunks = file.hunks.map(hunk => {
+                const range = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+                const lines = hunk.lines.map(tokens =>
+                    tokens
+                        .map(({ type, text }) =>
+                            type === 'added' ? `{+${text}+}` : type === 'removed' ? `[-${text}-]` : text
+                        )
+                        .join('')
+                );
+                return [range, ...lines].join('\n');
+            });
+            const name = file.oldPath === file.newPath ? file.newPath : `${file.oldPath} => ${file.newPath}`;
+            return [name, ...hunks].join('\n');
+        })
+        .join('\n\n');
+
+/**
+ * Reads the diff in the chosen view, to print it as text or as a document. The patch is colorized when printed
+ * to a terminal as text.
+ */
+const readDiff = async (
+    repository: Repository,
+    options: GitDiffOptions,
+    view: TDiffView,
+    asText: boolean
+): Promise<{ text: string; document: Record<string, unknown> }> => {
+    switch (view) {
+        case 'numstat': {
+            const files = await repository.diff.numstat(options);
+            return { text: renderNumstat(files), document: { files } };
+        }
+        case 'raw': {
+            const files = await repository.diff.raw(options);
+            return { text: renderRaw(files), document: { files } };
+        }
+        case 'shortstat': {
+            const stat = await repository.diff.shortstat(options);
+            return { text: renderShortstat(stat), document: { stat } };
+        }
+        case 'words': {
+            const files = await repository.diff.wordDiff(options);
+            return { text: renderWords(files), document: { files } };
+        }
+        default: {
+            const patch = await repository.diff.diff({ ...options, color: asText && process.stdout.isTTY === true });
+            return { text: patch.replace(/\n$/, ''), document: { patch } };
+        }
+    }
+};
+
+const diffCommand = genCommand({
+    name: 'diff',
+    args: [],
+    options: [
+        {
+            name: 'from',
+            optionType: 'string',
+            flag: '--from',
+            alias: [],
+            required: false
+        },
+        {
+            name: 'to',
+            optionType: 'string',
+            flag: '--to',
+            alias: [],
+            required: false
+        },
+        {
+            name: 'mergeBase',
+            optionType: 'boolean',
+            flag: '--merge-base',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'staged',
+            optionType: 'boolean',
+            flag: '--staged',
+            alias: ['--cached'],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'paths',
+            optionType: 'string',
+            flag: '-p',
+            alias: ['--paths'],
+            required: false
+        },
+        {
+            name: 'view',
+            optionType: 'string',
+            flag: '--view',
+            alias: [],
+            required: false,
+            customValidator: value => {
+                if (!validViews.includes(value as TDiffView))
+                    return {
+                        error: true,
+                        message: `Invalid value for view: ${value}. Valid views are ${validViews.join(', ')}`
+                    };
+                else return { error: false };
+            }
+        },
+        formatOption
+    ]
+});
+
+diffCommand.action(async ({ from, to, mergeBase, staged, paths, view, format }) => {
+    if (to && !from) ErrorHandler.throw(new AppError("The '--to' option needs a '--from' commit."));
+    if (to && staged) ErrorHandler.throw(new AppError("The '--staged' and '--to' options cannot be combined."));
+
+    const repository = await Repository.open();
+    // The services run in the root of the repository, the paths are given from the current directory
+    const pathspecs = paths
+        ?.split(',')
+        .map(path => path.trim())
+        .filter(path => path.length > 0)
+        .map(path => relative(repository.root, resolve(path)) || '.');
+
+    const options: GitDiffOptions = { from, to, mergeBase, cached: staged, paths: pathspecs };
+    const chosen = (view ?? 'patch') as TDiffView;
+    const diff = await readDiff(repository, options, chosen, (format ?? 'text') === 'text');
+
+    printOutput(format, {
+        text: () => (diff.text.trim().length === 0 ? 'No changes.' : diff.text),
+        document: () => ({ schemaVersion: OUTPUT_SCHEMA_VERSION, view: chosen, ...diff.document })
+    });
+});
+
+export { diffCommand };
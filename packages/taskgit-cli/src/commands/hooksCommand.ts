@@ -0,0 +1,70 @@
+import { AppError, ErrorHandler, HooksService, OUTPUT_SCHEMA_VERSION, TGitHookStatus } from '@guiurm/taskgit-core';
+import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
+
+const validActions = ['install', 'uninstall', 'status', 'prepare-commit-msg'] as const;
+const hooksCommand = genCommand({
+    name: 'hooks',
+    options: [
+        {
+            name: 'file',
+            flag: '-f',
+            alias: ['--file'],
+            optionType: 'string',
+            required: false
+        },
+        {
+            name: 'source',
+            flag: '-s',
+            alias: ['--source'],
+            optionType: 'string',
+            required: false
+        },
+        formatOption
+    ] as const,
+    args: [
+        {
+            name: 'action',
+            type: 'string',
+            required: true
+        }
+    ] as const
+});
+
+const formatStatus = ({ name, path, installed, chained, foreign }: TGitHookStatus) => {
+    let state = 'not installed';
+    if (installed) state = chained ? 'installed, chained with the previous hook' : 'installed';
+    else if (foreign) state = 'foreign hook, not managed by taskgit';
+    return ` * ${name.padEnd(20)} ${state}\n   ${path}`;
+};
+
+hooksCommand.action(async ({ file, source, format }, { action }) => {
+    if (!validActions.includes(action as (typeof validActions)[number]))
+        ErrorHandler.throw(
+            new AppError(`Invalid hooks action '${action}'. Valid actions are ${validActions.join(', ')}.`)
+        );
+
+    const printHooks = (title: string, hooks: TGitHookStatus[]) =>
+        printOutput(format, {
+            text: () => `${title}\n${hooks.map(formatStatus).join('\n')}`,
+            document: () => ({ schemaVersion: OUTPUT_SCHEMA_VERSION, action, hooks })
+        });
+
+    switch (action) {
+        case 'install':
+            printHooks(' > Hooks installed:', await HooksService.install());
+            break;
+        case 'uninstall':
+            printHooks(' > Hooks uninstalled:', await HooksService.uninstall());
+            break;
+        case 'status':
+            printHooks(' > Hooks:', await HooksService.status());
+            break;
+        case 'prepare-commit-msg':
+            if (!file) ErrorHandler.throw(new AppError('The "--file" option is required by prepare-commit-msg.'));
+            HooksService.prepareCommitMessage(file as string, source);
+            break;
+    }
+});
+
+export { hooksCommand };
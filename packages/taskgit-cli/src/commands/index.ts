@@ -2,9 +2,24 @@ import { diffPickCommand } from './addDiffCommand';
 import { changelogCommand } from './changelogCommand';
 import { commitCommand } from './commitCommand';
 import { configUserCommand } from './configUserCommand';
+import { diffCommand } from './diffCommand';
+import { hooksCommand } from './hooksCommand';
+import { lintCommand } from './lintCommand';
+import { logCommand } from './logCommand';
 import { reportCommand } from './reportCommand';
 import { tagCommand } from './tagCommand';
 
-const commands = [commitCommand, diffPickCommand, configUserCommand, reportCommand, tagCommand, changelogCommand];
+const commands = [
+    commitCommand,
+    diffPickCommand,
+    diffCommand,
+    configUserCommand,
+    reportCommand,
+    tagCommand,
+    changelogCommand,
+    logCommand,
+    lintCommand,
+    hooksCommand
+];
 
 export { commands };
@@ -0,0 +1,88 @@
+import {
+    AppError,
+    CommitLintError,
+    CommitLintService,
+    ErrorHandler,
+    OUTPUT_SCHEMA_VERSION,
+    TCommitLintResult
+} from '@guiurm/taskgit-core';
+import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
+
+const lintCommand = genCommand({
+    name: 'lint',
+    options: [
+        {
+            name: 'file',
+            flag: '-e',
+            alias: ['--edit', '--file'],
+            optionType: 'string',
+            required: false
+        },
+        {
+            name: 'from',
+            flag: '--from',
+            alias: [],
+            optionType: 'string',
+            required: false
+        },
+        {
+            name: 'to',
+            flag: '--to',
+            alias: [],
+            optionType: 'string',
+            required: false
+        },
+        {
+            name: 'branch',
+            flag: '-b',
+            alias: ['--branch'],
+            optionType: 'string',
+            required: false
+        },
+        // Deprecated, the same as `--format json`
+        {
+            name: 'json',
+            flag: '--json',
+            alias: [],
+            optionType: 'boolean',
+            required: false,
+            defaultValue: false
+        },
+        formatOption
+    ] as const,
+    args: []
+});
+
+const formatResult = (result: TCommitLintResult) => {
+    const hash = result.hash ? `${result.hash.slice(0, 7)} ` : '';
+    let report = `${result.valid ? '✔' : '✖'} ${hash}${result.header}`;
+    result.violations.forEach(v => (report += `\n    - [${v.rule}] ${v.message}`));
+    return report;
+};
+
+lintCommand.action(async ({ file, from, to, branch, json, format }) => {
+    if (json) console.warn("The '--json' option is deprecated, use '--format json' instead.");
+
+    if (file && (from || to))
+        ErrorHandler.throw(new AppError('The "--file" option cannot be combined with "--from" or "--to".'));
+
+    const results = file
+        ? [await CommitLintService.lintFile(file, { branch })]
+        : await CommitLintService.lintRange({ from, to, branch });
+
+    const invalid = results.filter(r => !r.valid);
+
+    printOutput(json ? 'json' : format, {
+        text: () =>
+            `${results.map(formatResult).join('\n')}\n\n${results.length} commit(s) checked, ${invalid.length} with problems.`,
+        document: () => ({ schemaVersion: OUTPUT_SCHEMA_VERSION, results })
+    });
+
+    if (invalid.length > 0)
+        ErrorHandler.throw(
+            new CommitLintError(`${invalid.length} commit message(s) do not follow the project conventions.`, invalid)
+        );
+});
+
+export { lintCommand };
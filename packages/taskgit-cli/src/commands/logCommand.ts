@@ -0,0 +1,166 @@
+import {
+    ConventionalCommitParser,
+    FilesReportService,
+    GitLogCommitInfo,
+    OUTPUT_SCHEMA_VERSION,
+    TLogPage,
+    TLogQuery,
+    ProjectConfigService,
+    TCommitType
+} from '@guiurm/taskgit-core';
+import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
+
+const validMerges = ['include', 'exclude', 'only'] as const;
+const MAX_TITLE_LENGTH = 64;
+
+const countValidator = (value: string) => {
+    if (!/^\d+$/.test(value)) return { error: true, message: `${value} is not a valid number of commits` };
+    else return { error: false };
+};
+
+/**
+ * Splits a comma separated option into its values.
+ */
+const splitList = (value?: string) =>
+    value
+        ?.split(',')
+        .map(v => v.trim())
+        .filter(v => v.length > 0);
+
+/**
+ * Renders the commits as a table: the icon of the type, the short hash, the date, the title and the author. The
+ * files of every commit, if listed, go below it.
+ */
+const renderTable = (commits: GitLogCommitInfo[], types: TCommitType[]): string => {
+    const titleWidth = Math.min(MAX_TITLE_LENGTH, Math.max(0, ...commits.map(c => c.title.length)));
+
+    return commits
+        .map(commit => {
+            const parsed = ConventionalCommitParser.tryParse(commit.title);
+            const type = parsed && types.find(t => t.name === parsed.type.toLowerCase());
+            const icon = commit.isMerge ? '🔀' : (type?.icon.trim() ?? '•');
+            const title = commit.title.length > titleWidth ? `${commit.title.slice(0, titleWidth - 1)}…` : commit.title;
+
+            const row = [icon, commit.hash.slice(0, 7), commit.date.slice(0, 10), title.padEnd(titleWidth)];
+            const files = commit.files.map(
+                f => `\n      ${f.status.charAt(0).toUpperCase()}  ${f.origPath ? `${f.origPath} -> ` : ''}${f.path}`
+            );
+            return `${row.join('  ')}  ${commit.author.name}${files.join('')}`;
+        })
+        .join('\n');
+};
+
+const logCommand = genCommand({
+    name: 'log',
+    args: [],
+    options: [
+        { name: 'from', optionType: 'string', flag: '--from', alias: [], required: false },
+        { name: 'to', optionType: 'string', flag: '--to', alias: [], required: false },
+        { name: 'branch', optionType: 'string', flag: '-b', alias: ['--branch'], required: false },
+        { name: 'author', optionType: 'string', flag: '-a', alias: ['--author'], required: false },
+        { name: 'committer', optionType: 'string', flag: '--committer', alias: [], required: false },
+        { name: 'since', optionType: 'string', flag: '--since', alias: [], required: false },
+        { name: 'until', optionType: 'string', flag: '--until', alias: [], required: false },
+        { name: 'paths', optionType: 'string', flag: '-p', alias: ['--paths'], required: false },
+        { name: 'grep', optionType: 'string', flag: '-g', alias: ['--grep'], required: false },
+        { name: 'type', optionType: 'string', flag: '-t', alias: ['--type'], required: false },
+        { name: 'scope', optionType: 'string', flag: '-s', alias: ['--scope'], required: false },
+        {
+            name: 'firstParent',
+            optionType: 'boolean',
+            flag: '--first-parent',
+            alias: [],
+            required: false,
+            defaultValue: false
+        },
+        {
+            name: 'merges',
+            optionType: 'string',
+            flag: '--merges',
+            alias: [],
+            required: false,
+            customValidator: value => {
+                if (!validMerges.includes(value as (typeof validMerges)[number]))
+                    return {
+                        error: true,
+                        message: `Invalid value for merges: ${value}. Valid values are ${validMerges.join(', ')}`
+                    };
+                else return { error: false };
+            }
+        },
+        {
+            name: 'maxCount',
+            optionType: 'string',
+            flag: '-n',
+            alias: ['--max-count'],
+            required: false,
+            customValidator: countValidator
+        },
+        {
+            name: 'skip',
+            optionType: 'string',
+            flag: '--skip',
+            alias: [],
+            required: false,
+            customValidator: countValidator
+        },
+        {
+            name: 'limit',
+            optionType: 'string',
+            flag: '-l',
+            alias: ['--limit'],
+            required: false,
+            customValidator: countValidator
+        },
+        { name: 'cursor', optionType: 'string', flag: '--cursor', alias: [], required: false },
+        { name: 'files', optionType: 'boolean', flag: '--files', alias: [], required: false, defaultValue: false },
+        formatOption
+    ]
+});
+
+logCommand.action(async options => {
+    const { from, to, branch, author, committer, since, until, grep, firstParent, files, cursor, format } = options;
+
+    const query: TLogQuery = {
+        from,
+        to,
+        branch,
+        author,
+        committer,
+        since,
+        until,
+        grep,
+        firstParent,
+        files,
+        paths: splitList(options.paths),
+        type: splitList(options.type),
+        scope: splitList(options.scope),
+        merges: options.merges as (typeof validMerges)[number] | undefined,
+        maxCount: options.maxCount === undefined ? undefined : Number(options.maxCount),
+        skip: options.skip === undefined ? undefined : Number(options.skip)
+    };
+    // A limit or a cursor reads a single page of the log
+    const paged = options.limit !== undefined || cursor !== undefined;
+    const page: TLogPage = paged
+        ? await FilesReportService.logPage(query, {
+              limit: options.limit === undefined ? undefined : Number(options.limit),
+              cursor
+          })
+        : { commits: await FilesReportService.log(query), cursor: null };
+    const { commits } = page;
+
+    printOutput(format, {
+        text: () => {
+            if (commits.length === 0) return 'No commits found.';
+            const table = renderTable(commits, ProjectConfigService.load().types);
+            return page.cursor ? `${table}\n\nNext page: --cursor ${page.cursor}` : table;
+        },
+        document: () =>
+            paged
+                ? { schemaVersion: OUTPUT_SCHEMA_VERSION, commits, cursor: page.cursor }
+                : { schemaVersion: OUTPUT_SCHEMA_VERSION, commits }
+    });
+});
+
+export { logCommand };
@@ -1,7 +1,8 @@
 import { FilesReportService } from '@guiurm/taskgit-core';
 import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
 
-const validTargets = ['staged', 'unstaged', 'untracked'] as const;
+const validTargets = ['staged', 'unstaged', 'untracked', 'conflicts', 'ignored'] as const;
 const reportCommand = genCommand({
     name: 'report',
     options: [
@@ -19,26 +20,34 @@ const reportCommand = genCommand({
                     };
                 else return { error: false };
             }
-        }
+        },
+        formatOption
     ],
     args: []
 });
-reportCommand.action(async ({ target }) => {
-    const files = await FilesReportService.filesReport();
+reportCommand.action(async ({ target, format }) => {
+    const files = await FilesReportService.filesReport({ ignored: target === 'ignored' });
 
-    switch (target) {
-        case 'staged':
-            console.log(files.stagedReport());
-            break;
-        case 'unstaged':
-            console.log(files.unstagedReport());
-            break;
-        case 'untracked':
-            console.log(files.untrackedReport());
-            break;
-        default:
-            console.log(files.totalReport());
-    }
+    printOutput(format, {
+        text: () => {
+            switch (target) {
+                case 'staged':
+                    return files.stagedReport();
+                case 'unstaged':
+                    return files.unstagedReport();
+                case 'untracked':
+                    return files.untrackedReport();
+                case 'conflicts':
+                    return files.conflictsReport();
+                case 'ignored':
+                    return files.ignoredReport();
+                default:
+                    return files.totalReport();
+            }
+        },
+        // The document always has every list, the target only chooses the text
+        document: () => files.toDocument()
+    });
 });
 
 export { reportCommand };
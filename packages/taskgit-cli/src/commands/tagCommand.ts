@@ -1,5 +1,6 @@
-import { AppError, ErrorHandler, TaggerService } from '@guiurm/taskgit-core';
+import { AppError, ErrorHandler, TaggerService, TTagsDocument } from '@guiurm/taskgit-core';
 import { genCommand } from '@guiurm/termify';
+import { formatOption, printOutput } from '../output';
 
 const tagCommand = genCommand({
     name: 'tag',
@@ -34,11 +35,12 @@ const tagCommand = genCommand({
         },
         { name: 'listLocal', flag: '-ll', alias: ['--list-local'], optionType: 'boolean', required: false },
         { name: 'listRemote', flag: '-lr', alias: ['--list-remote'], optionType: 'boolean', required: false },
-        { name: 'list', flag: '-l', alias: ['--list'], optionType: 'boolean', required: false }
+        { name: 'list', flag: '-l', alias: ['--list'], optionType: 'boolean', required: false },
+        formatOption
     ] as const
 });
 
-tagCommand.action(async ({ tagName, message, remove, remote, list, listLocal, listRemote }) => {
+tagCommand.action(async ({ tagName, message, remove, remote, list, listLocal, listRemote, format }) => {
     const optionsList = [
         ...[
             { name: 'add', value: tagName },
@@ -59,14 +61,21 @@ tagCommand.action(async ({ tagName, message, remove, remote, list, listLocal, li
             )
         );
 
+    const action = optionsList[0]?.name;
+    if ((action === 'add' || action === 'remove') && format !== undefined && format !== 'text')
+        ErrorHandler.throw(
+            new AppError(`The '--format ${format}' option only applies to the tag listings, not to '--${action}'.`)
+        );
+
     let res: string = '';
+    let document: TTagsDocument | null = null;
 
     const localTags = await TaggerService.listTagsLocal();
     const remoteTags = await TaggerService.listTagsRemote();
 
     const existTag = localTags.find(({ tag }) => tag === tagName);
 
-    switch (optionsList[0].name) {
+    switch (action) {
         case 'add': {
             if (!message && !existTag)
                 res = await TaggerService.createLightweightTag(tagName as string).then(
@@ -82,7 +91,7 @@ tagCommand.action(async ({ tagName, message, remove, remote, list, listLocal, li
                     console.warn(
                         `\n > Tag ${tagName} already exists locally at ${existTag.commit}, trying to push ${remote}!`
                     );
-                console.log(`\n > Pushing tag to remote ${remote}...`);
+                console.warn(`\n > Pushing tag to remote ${remote}...`);
 
                 res += `\n > Remote ${remote}:\n   ${await TaggerService.pushTag(tagName as string)}\n\n`;
             }
@@ -92,27 +101,34 @@ tagCommand.action(async ({ tagName, message, remove, remote, list, listLocal, li
             if (!existTag) console.warn(`\n > Tag ${remove} does not exist locally!`);
             else res = 'Tag removed!: ' + (await TaggerService.deleteTag(remove as string));
             if (remote) {
-                console.log(`\n > Pushing changes to remote ${remote}...`);
+                console.warn(`\n > Pushing changes to remote ${remote}...`);
                 const commandRes = await TaggerService.deleteRemoteTag(remove as string, remote);
                 res += `Tag removed from '${remote}'!: ${commandRes}`;
             }
+            break;
         }
         case 'list': {
+            document = TaggerService.toDocument({ local: localTags, remote: remoteTags });
             res = ' > Local tags:\n' + localTags.map(({ tag, commit }) => ` * ${commit} ${tag}`).join('\n') + '\n\n';
             res += ' > Remote tags:\n' + remoteTags.map(({ tag, commit }) => ` * ${commit} ${tag}`).join('\n');
             break;
         }
         case 'listLocal': {
+            document = TaggerService.toDocument({ local: localTags });
             res = 'Local tags:\n' + localTags.map(({ tag, commit }) => ` * ${commit} ${tag}`).join('\n');
             break;
         }
         case 'listRemote': {
+            document = TaggerService.toDocument({ remote: remoteTags });
             res = 'Remote tags:\n' + remoteTags.map(({ tag, commit }) => ` * ${commit} ${tag}`).join('\n');
             break;
         }
     }
 
-    console.log(res);
+    // Only the listings have a document, the other actions print their messages as text
+    const listing = document;
+    if (listing) printOutput(format, { text: () => res, document: () => listing });
+    else console.log(res);
 });
 
 export { tagCommand };
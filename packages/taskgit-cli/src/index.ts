@@ -11,7 +11,7 @@ const run = async () => {
         if (error instanceof AppError && (IS_DEV || IS_TEST))
             console.log(`Error ocurred during script execution at:\n${error.errorTrack}\n`);
 
-        process.exit(1);
+        process.exit(error.exitCode);
     });
 
     await new Termify({ appName: 'taskgit', commands, version: AppError.VERSION }).start();
@@ -0,0 +1,34 @@
+import { OUTPUT_FORMATS, OutputService, TOutputFormat } from '@guiurm/taskgit-core';
+
+/**
+ * The `--format` option shared by the commands that print reports.
+ */
+const formatOption = {
+    name: 'format',
+    optionType: 'string',
+    flag: '--format',
+    alias: [],
+    required: false,
+    customValidator: (value: string) => {
+        if (!OUTPUT_FORMATS.includes(value as TOutputFormat))
+            return {
+                error: true,
+                message: `Invalid value for format: ${value}. Valid formats are ${OUTPUT_FORMATS.join(', ')}`
+            };
+        else return { error: false };
+    }
+} as const;
+
+/**
+ * Prints the output of a command in the chosen format: the text for people, or the document serialized.
+ *
+ * @param format The value of the `--format` option, `text` when omitted.
+ * @param output.text Builds the text output.
+ * @param output.document Builds the document, with a stable schema.
+ */
+const printOutput = (format: string | undefined, output: { text: () => string; document: () => unknown }) => {
+    const chosen = (format ?? 'text') as TOutputFormat;
+    console.log(chosen === 'text' ? output.text() : OutputService.serialize(output.document(), chosen));
+};
+
+export { formatOption, printOutput };
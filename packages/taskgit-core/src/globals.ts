@@ -1,3 +1,11 @@
+import {
+    TChangelogSection,
+    TCommitLintRules,
+    TCommitPrompts,
+    TCommitType,
+    TGitHookName,
+    TOutputFormat
+} from '@app-types';
 import { rf } from '@services/file-management-service/fileService';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
@@ -5,6 +13,8 @@ import { fileURLToPath } from 'node:url';
 
 const TMP_DIR = join(tmpdir(), 'taskgit');
 const TMP_PATCH_DIR = join(TMP_DIR, 'patch');
+const TMP_RECOVERY_DIR = join(TMP_PATCH_DIR, 'recovery');
+const TMP_BACKUP_DIR = join(TMP_PATCH_DIR, 'backup');
 
 const pkg = JSON.parse(rf(join(fileURLToPath(import.meta.url), '..', '..', './package.json')));
 
@@ -16,6 +26,176 @@ const IS_DEV = ['dev', 'development'].includes(process.env.NODE_ENV as string);
 const IS_PROD = ['production', 'prod', 'staging', 'stg', 'stage'].includes(process.env.NODE_ENV as string);
 const IS_TEST = process.env.NODE_ENV === 'test';
 
-const LOG_SPLITTER = '_$ ò $_';
+/**
+ * The format of `git log`, parsed by {@link parseLog}: a record separator, then the hash, parents, author, committer,
+ * refs, subject, body and trailers, each followed by a NUL character.
+ */
+const LOG_FORMAT =
+    '%x1e%H%x00%P%x00%an%x00%ae%x00%aI%x00%cn%x00%ce%x00%cI%x00%D%x00%s%x00%b%x00%(trailers:only,unfold)%x00';
 
-export { IS_DEV, IS_PROD, IS_TEST, LOG_SPLITTER, NAME, TMP_DIR, TMP_PATCH_DIR, VERSION, VERSION_NAME };
+const COMMIT_STANDARD_TYPES: TCommitType[] = [
+    {
+        icon: '🚀',
+        name: 'feat',
+        changelogSection: 'added',
+        description: 'Agregar una nueva funcionalidad o característica al proyecto.'
+    },
+    { icon: '🐛', name: 'fix', changelogSection: 'fixed', description: 'Corregir un error o bug en el código.' },
+    {
+        icon: '📚',
+        name: 'docs',
+        changelogSection: 'documentation',
+        description: 'Actualizar o modificar la documentación del proyecto (README, comentarios, etc.).'
+    },
+    {
+        icon: '🎨',
+        name: 'style',
+        changelogSection: 'changed',
+        description: 'Cambios en el formato o estilo del código, sin afectar la funcionalidad.'
+    },
+    {
+        icon: '♻️ ',
+        name: 'refactor',
+        changelogSection: 'changed',
+        description: 'Reestructuración del código para mejorar su calidad o rendimiento, sin cambiar su comportamiento.'
+    },
+    {
+        icon: '⚡',
+        name: 'perf',
+        changelogSection: 'changed',
+        description: 'Mejoras en el rendimiento del proyecto sin afectar su funcionalidad.'
+    },
+    // The name used by earlier versions, kept so their commits still have a section
+    {
+        icon: '⚡',
+        name: 'performance',
+        changelogSection: 'changed',
+        description: 'Mejoras en el rendimiento del proyecto sin afectar su funcionalidad.'
+    },
+    {
+        icon: '🧪',
+        name: 'test',
+        changelogSection: 'changed',
+        description: 'Añadir o modificar pruebas (unitarias, de integración) para mejorar la cobertura del código.'
+    },
+    {
+        icon: '🧹',
+        name: 'chore',
+        changelogSection: 'changed',
+        description:
+            'Tareas de mantenimiento, configuración o administración, que no afectan la funcionalidad del proyecto.'
+    },
+    {
+        icon: '🏗️ ',
+        name: 'build',
+        changelogSection: 'changed',
+        description:
+            'Cambios relacionados con la construcción del proyecto, como dependencias, compilación o configuración.'
+    },
+    {
+        icon: '⚙️ ',
+        name: 'ci',
+        changelogSection: 'changed',
+        description: 'Cambios en la configuración de integración continua o en los pipelines de CI/CD.'
+    },
+    {
+        icon: '🚀',
+        name: 'release',
+        description: 'Realizar un lanzamiento o actualización de la versión del proyecto.'
+    },
+    {
+        icon: '❌',
+        name: 'removed',
+        changelogSection: 'removed',
+        description: 'Eliminar funcionalidades obsoletas o innecesarias.'
+    },
+    {
+        icon: '📉',
+        name: 'deprecated',
+        changelogSection: 'deprecated',
+        description: 'Marcar funcionalidades como obsoletas y que serán eliminadas en el futuro.'
+    },
+    {
+        icon: '🔒',
+        name: 'security',
+        changelogSection: 'security',
+        description: 'Cambios relacionados con la seguridad, como actualizaciones para mitigar vulnerabilidades.'
+    },
+    { icon: '⏪', name: 'revert', description: 'Deshacer cambios realizados en un commit anterior.' },
+    {
+        icon: '⚒️ ',
+        name: 'wip',
+        description: 'Trabajo en progreso, commit incompleto que refleja cambios aún en desarrollo.'
+    }
+];
+
+const DEFAULT_COMMIT_PROMPTS: TCommitPrompts = {
+    type: 'Select type: ',
+    scope: 'Target: ',
+    title: 'Title: ',
+    body: 'Body: ',
+    breaking: 'Does it introduce a breaking change?',
+    breakingChange: 'Describe the breaking change: ',
+    refs: 'Issue references (e.g. #123, PROJ-42): '
+};
+
+const DEFAULT_COMMIT_LINT_RULES: TCommitLintRules = {
+    maxTitleLength: 72,
+    bodyRequiredTypes: [],
+    protectedBranches: ['main', 'master'],
+    protectedBranchForbiddenTypes: ['wip']
+};
+
+const CHANGELOG_SECTIONS: TChangelogSection[] = [
+    'added',
+    'fixed',
+    'documentation',
+    'changed',
+    'removed',
+    'deprecated',
+    'security'
+];
+
+const GIT_HOOK_NAMES: TGitHookName[] = ['commit-msg', 'prepare-commit-msg', 'pre-push'];
+const GIT_HOOK_MARKER = '# taskgit-managed-hook';
+const GIT_HOOK_CHAINED_SUFFIX = '.taskgit-chained';
+
+const PROJECT_CONFIG_FILES = ['.taskgitrc.json', 'taskgit.config.json', 'package.json'];
+
+const OUTPUT_FORMATS: TOutputFormat[] = ['text', 'json', 'yaml'];
+/**
+ * The version of the schema of the JSON and YAML documents, increased on every change that is not an addition.
+ */
+const OUTPUT_SCHEMA_VERSION = 1;
+
+// The number of commits of a page of the log
+const DEFAULT_LOG_PAGE_SIZE = 50;
+
+// The version under which the changelog lists the commits that are not released yet
+const UNRELEASED_VERSION = 'Unreleased';
+
+export {
+    CHANGELOG_SECTIONS,
+    COMMIT_STANDARD_TYPES,
+    DEFAULT_COMMIT_LINT_RULES,
+    DEFAULT_COMMIT_PROMPTS,
+    DEFAULT_LOG_PAGE_SIZE,
+    GIT_HOOK_CHAINED_SUFFIX,
+    GIT_HOOK_MARKER,
+    GIT_HOOK_NAMES,
+    IS_DEV,
+    IS_PROD,
+    IS_TEST,
+    LOG_FORMAT,
+    NAME,
+    OUTPUT_FORMATS,
+    OUTPUT_SCHEMA_VERSION,
+    PROJECT_CONFIG_FILES,
+    TMP_BACKUP_DIR,
+    TMP_DIR,
+    TMP_PATCH_DIR,
+    TMP_RECOVERY_DIR,
+    UNRELEASED_VERSION,
+    VERSION,
+    VERSION_NAME
+};
@@ -1,4 +1,6 @@
 export * from './globals';
 export * from './services/index';
 export * from './types/index';
+export * from './utils/changelogUtils';
 export * from './utils/gitServiceUtils';
+export * from './utils/semverUtils';
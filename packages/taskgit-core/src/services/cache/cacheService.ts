@@ -1,6 +1,7 @@
-import { TMP_DIR, TMP_PATCH_DIR } from '@globals';
-import { sha1 } from '@services/file-management-service/fileService';
-import { existsSync, mkdirSync, unlinkSync, writeFileSync } from 'node:fs';
+import { TIndexEntry } from '@app-types';
+import { TMP_BACKUP_DIR, TMP_DIR, TMP_PATCH_DIR, TMP_RECOVERY_DIR } from '@globals';
+import { rf, sha1 } from '@services/file-management-service/fileService';
+import { existsSync, mkdirSync, readdirSync, unlinkSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 
 if (!existsSync(TMP_DIR)) {
@@ -9,6 +10,12 @@ if (!existsSync(TMP_DIR)) {
 if (!existsSync(TMP_PATCH_DIR)) {
     mkdirSync(TMP_PATCH_DIR);
 }
+if (!existsSync(TMP_RECOVERY_DIR)) {
+    mkdirSync(TMP_RECOVERY_DIR);
+}
+if (!existsSync(TMP_BACKUP_DIR)) {
+    mkdirSync(TMP_BACKUP_DIR);
+}
 
 export type CacheFile = {
     cacheFilePath: string;
@@ -22,6 +29,32 @@ export type FileChanges = {
     ignoredChanges?: CacheFile;
 };
 
+export type RecoveryPoint = {
+    hash: string;
+    /**
+     * The git directory of the repository the file belongs to.
+     */
+    repository: string;
+    /**
+     * The path of the file, relative to the root of the worktree.
+     */
+    filePath: string;
+    /**
+     * The index entry of the file before the change, or null if the file was not in the index.
+     */
+    index: TIndexEntry | null;
+    /**
+     * The changes the working tree must have, as a patch. They are applied again on recovery if they are
+     * missing. Empty when the change does not touch the working tree.
+     */
+    patch: CacheFile;
+    /**
+     * Whether the change finished. A recovery point that did not complete belongs to an interrupted run.
+     */
+    completed: boolean;
+    createdAt: number;
+};
+
 class CacheStore {
     private static instance: CacheStore; // Instancia estática de la clase
     private files: Record<string, FileChanges>;
@@ -107,6 +140,108 @@ class CacheStore {
         if (file.ignoredChanges) unlinkSync(file.ignoredChanges.cacheFilePath);
         return true;
     }
+
+    /**
+     * Saves the state of a file before changing its index entry or its working tree. Unlike the patch caches,
+     * recovery points are kept on disk between runs, until they are cleared.
+     *
+     * @param {object} point
+     * @param {string} point.repository - The git directory of the repository.
+     * @param {string} point.filePath - The path of the file, relative to the root of the worktree.
+     * @param {TIndexEntry | null} point.index - The index entry of the file, or null if it is not in the index.
+     * @param {string} point.patch - The changes the working tree must have, as a patch.
+     * @returns {RecoveryPoint} The saved recovery point.
+     */
+    public createRecoveryPoint(point: {
+        repository: string;
+        filePath: string;
+        index: TIndexEntry | null;
+        patch: string;
+    }): RecoveryPoint {
+        const dir = this._recoveryDir(point.repository);
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+        const hash = sha1(point.filePath + Date.now().toString(16));
+        const recoveryPoint: RecoveryPoint = {
+            hash,
+            repository: point.repository,
+            filePath: point.filePath,
+            index: point.index,
+            patch: { cacheFilePath: join(dir, `${hash}.patch`), content: point.patch },
+            completed: false,
+            createdAt: Date.now()
+        };
+
+        writeFileSync(recoveryPoint.patch.cacheFilePath, recoveryPoint.patch.content);
+        writeFileSync(join(dir, `${hash}.json`), JSON.stringify(recoveryPoint));
+        return recoveryPoint;
+    }
+
+    /**
+     * Marks a recovery point as completed, once the change it protects has finished.
+     *
+     * @param {RecoveryPoint} point - The recovery point.
+     */
+    public completeRecoveryPoint(point: RecoveryPoint): void {
+        point.completed = true;
+        writeFileSync(join(this._recoveryDir(point.repository), `${point.hash}.json`), JSON.stringify(point));
+    }
+
+    /**
+     * Returns the recovery points saved for a repository, oldest first.
+     *
+     * @param {string} repository - The git directory of the repository.
+     * @returns {RecoveryPoint[]} The recovery points.
+     */
+    public getRecoveryPoints(repository: string): RecoveryPoint[] {
+        const dir = this._recoveryDir(repository);
+        if (!existsSync(dir)) return [];
+
+        return readdirSync(dir)
+            .filter(f => f.endsWith('.json'))
+            .map(f => JSON.parse(rf(join(dir, f))) as RecoveryPoint)
+            .filter(p => existsSync(p.patch.cacheFilePath))
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /**
+     * Deletes a recovery point and its patch.
+     *
+     * @param {RecoveryPoint} point - The recovery point.
+     * @returns {boolean} Returns false if the recovery point does not exist.
+     */
+    public clearRecoveryPoint(point: RecoveryPoint): boolean {
+        const file = join(this._recoveryDir(point.repository), `${point.hash}.json`);
+        if (!existsSync(file)) return false;
+
+        unlinkSync(file);
+        if (existsSync(point.patch.cacheFilePath)) unlinkSync(point.patch.cacheFilePath);
+        return true;
+    }
+
+    /**
+     * Saves a backup of the changes removed from a file. Backups are never cleared, they are left in the
+     * cache directory for the user to apply them again.
+     *
+     * @param {object} backup
+     * @param {string} backup.repository - The git directory of the repository.
+     * @param {string} backup.filePath - The path of the file, relative to the root of the worktree.
+     * @param {string} backup.patch - The patch that brings the changes back.
+     * @returns {CacheFile} The saved backup.
+     */
+    public createBackupPatch(backup: { repository: string; filePath: string; patch: string }): CacheFile {
+        const dir = join(TMP_BACKUP_DIR, sha1(backup.repository));
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+        const name = backup.filePath.replace(/[^\w.-]+/g, '_');
+        const file: CacheFile = { cacheFilePath: join(dir, `${Date.now()}-${name}.patch`), content: backup.patch };
+        writeFileSync(file.cacheFilePath, file.content);
+        return file;
+    }
+
+    private _recoveryDir(repository: string): string {
+        return join(TMP_RECOVERY_DIR, sha1(repository));
+    }
 }
 
 export { CacheStore };
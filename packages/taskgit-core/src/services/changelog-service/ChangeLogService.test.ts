@@ -0,0 +1,124 @@
+import { LOG_FORMAT } from '@globals';
+import { ChangeLogService } from '@services/changelog-service/ChangeLogService';
+import { AppError } from '@services/error-handler';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import { GitContext } from '@services/git-service/GitContext';
+import { parseLog } from '@utils/gitServiceUtils';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+const TAGS_ARGS = ['log', '--simplify-by-decoration', '--decorate-refs=refs/tags/', '--pretty=format:%D'];
+const LOG_ARGS = ['log', '-z', `--pretty=format:${LOG_FORMAT}`];
+
+/**
+ * Builds the output of `git log -z` for commits with the given titles.
+ */
+const logOutput = (...titles: string[]) =>
+    titles
+        .map((title, i) => {
+            const signature = ['Ana', 'ana@example.com', '2024-05-01T10:30:00Z'];
+            return `\x1e${[`c${i}`, '', ...signature, ...signature, '', title, '', ''].join('\0')}\0`;
+        })
+        .join('');
+
+/**
+ * A fake repository whose latest version tag is `tag`, with the given commits since it.
+ */
+const repository = (tag: string | null, titles: string[], cwd = '/repo') => {
+    const fake = new FakeGitExecutor()
+        .on([...TAGS_ARGS, '--end-of-options', 'HEAD', '--'], tag ? `tag: ${tag}\n` : '')
+        .on([...LOG_ARGS, '--end-of-options', tag ? `${tag}..HEAD` : 'HEAD', '--'], logOutput(...titles));
+    return new ChangeLogService(new GitContext(cwd, fake));
+};
+
+describe('ChangeLogService#resolveRelease', () => {
+    it('bumps the latest tag by the commits since it', async () => {
+        const release = await repository('v1.2.0', ['fix: a', 'feat: b']).resolveRelease();
+
+        assert.equal(release.previousTag, 'v1.2.0');
+        assert.equal(release.from, 'v1.2.0');
+        assert.equal(release.bump, 'minor');
+        assert.equal(release.commits.length, 2);
+        assert.deepEqual([release.version, release.versionSource], ['1.3.0', 'bump']);
+    });
+
+    it('releases a pre-release tag and starts from 0.0.0 without tags', async () => {
+        assert.equal((await repository('v2.0.0-rc.1', ['feat!: c']).resolveRelease()).version, '2.0.0');
+        assert.equal((await repository(null, ['fix: a']).resolveRelease()).version, '0.0.1');
+    });
+
+    it('takes the version of the package when it is newer than the tag', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'taskgit-'));
+        try {
+            writeFileSync(join(dir, 'package.json'), JSON.stringify({ version: '1.2.0-beta.1' }));
+            const older = await repository('v1.2.0', ['fix: a'], dir).resolveRelease();
+            assert.deepEqual([older.version, older.versionSource], ['1.2.1', 'bump']);
+
+            writeFileSync(join(dir, 'package.json'), JSON.stringify({ version: '1.4.0' }));
+            const newer = await repository('v1.2.0', ['fix: a'], dir).resolveRelease();
+            assert.deepEqual([newer.version, newer.versionSource], ['1.4.0', 'package']);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('checks the given version', async () => {
+        const service = repository('v1.2.0', ['fix: a']);
+
+        assert.equal((await service.resolveRelease({ version: '1.2.1-rc.0' })).versionSource, 'option');
+        assert.equal((await service.resolveRelease({ unreleased: true })).version, 'Unreleased');
+        await assert.rejects(service.resolveRelease({ version: 'next' }), AppError);
+        await assert.rejects(service.resolveRelease({ version: '1.3.0', unreleased: true }), AppError);
+    });
+});
+
+/**
+ * The section of a release of one `feat` commit, as {@link ChangeLogService#renderRelease} writes it.
+ */
+const release = (service: ChangeLogService, version: string) =>
+    service.renderRelease({ commits: parseLog(logOutput('feat: new')), version });
+
+describe('ChangeLogService#insertRelease', () => {
+    const service = new ChangeLogService(new GitContext('/repo', new FakeGitExecutor()));
+    const commits = parseLog(logOutput('feat: new'));
+    const older = ['## v1.0.0 - 2024-01-01', '', '### Added', '', '- feat: first', ''];
+
+    it('adds the release below the text written by hand', () => {
+        const intro = ['# Changelog', '', 'Written by hand.', '', '```', '## 0.9.0', '```', '', ''];
+        const markdown = [...intro, ...older].join('\n');
+
+        assert.equal(
+            service.insertRelease(markdown, { commits, version: '1.1.0' }),
+            [...intro.slice(0, 7), '', release(service, '1.1.0'), ...older].join('\n')
+        );
+    });
+
+    it('adds the release at the end of a changelog without releases', () => {
+        assert.equal(
+            service.insertRelease('# Changelog\n', { commits, version: '1.0.0' }),
+            `# Changelog\n\n${release(service, '1.0.0')}`
+        );
+    });
+
+    it('replaces the section of the same version only with force', () => {
+        const newer = ['## 1.1.0 - 2024-02-01', '', '- feat: second', ''];
+        const markdown = ['# Changelog', '', ...newer, ...older].join('\n');
+
+        assert.throws(() => service.insertRelease(markdown, { commits, version: '1.0.0' }), AppError);
+        assert.equal(
+            service.insertRelease(markdown, { commits, version: '1.0.0', force: true }),
+            ['# Changelog', '', ...newer, release(service, '1.0.0')].join('\n')
+        );
+    });
+
+    it('replaces the unreleased section, by new unreleased commits or by their release', () => {
+        const markdown = ['# Changelog', '', '## [Unreleased]', '', '- feat: pending', '', ...older].join('\n');
+        const expected = (version: string) => ['# Changelog', '', release(service, version), ...older].join('\n');
+
+        assert.equal(service.insertRelease(markdown, { commits, version: 'Unreleased' }), expected('Unreleased'));
+        assert.equal(service.insertRelease(markdown, { commits, version: '1.1.0' }), expected('1.1.0'));
+    });
+});
@@ -1,8 +1,27 @@
-import { GitLogCommitInfo } from '@app-types';
-import { wf } from '@services/file-management-service/fileService';
+import {
+    GitLogCommitInfo,
+    TChangelogCommit,
+    TChangelogDocument,
+    TChangelogRelease,
+    TChangelogReleaseOptions,
+    TCommitType,
+    TReleaseType
+} from '@app-types';
+import { OUTPUT_SCHEMA_VERSION, UNRELEASED_VERSION } from '@globals';
+import { ConventionalCommitParser } from '@services/conventional-commit-service/ConventionalCommitParser';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { rf, wf } from '@services/file-management-service/fileService';
+import { GitContext } from '@services/git-service/GitContext';
+import { FilesReportService } from '@services/git-service/report/FilesReportService';
+import { TaggerService } from '@services/git-service/TaggerService';
 import { MarkdownService } from '@services/markdown-service/MarkdownService';
+import { ProjectConfigService } from '@services/project-config-service/ProjectConfigService';
+import { parseChangelogReleases } from '@utils/changelogUtils';
+import { bumpSemver, compareSemver, parseSemver } from '@utils/semverUtils';
+import { existsSync } from 'node:fs';
 
 type ChangelogSections = {
+    breaking: GitLogCommitInfo[];
     added: GitLogCommitInfo[];
     fixed: GitLogCommitInfo[];
     documentation: GitLogCommitInfo[];
@@ -13,24 +32,34 @@ type ChangelogSections = {
 };
 
 class ChangeLogService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository the changelog is generated for. Defaults to the current
+     * directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
     /**
      * Groups a list of commit objects into sections based on their titles.
      *
-     * The sections are:
-     *
-     * - added: commits with titles starting with 'feat'
-     * - fixed: commits with titles starting with 'fix'
-     * - documentation: commits with titles starting with 'docs'
-     * - changed: commits with titles starting with 'style', 'refactor', 'perf', 'test', 'chore', 'build', or 'ci'
-     * - removed: commits with titles starting with 'removed'
-     * - deprecated: commits with titles starting with 'deprecated'
-     * - security: commits with titles starting with 'security'
+     * Every commit is parsed as a Conventional Commit and listed in the `changelogSection` of its type. The
+     * types are read from the project configuration, see {@link ProjectConfigService.load}. Commits that are not
+     * Conventional Commits, or whose type has no section, are left out. Breaking changes are also listed in the
+     * `breaking` section.
      *
      * @param {GitLogCommitInfo[]} commits - An array of commit objects
+     * @param {TCommitType[]} [types] - The commit types. Defaults to the types of the project configuration.
      * @returns {ChangelogSections}
      */
-    public static groupCommitSections(commits: GitLogCommitInfo[]): ChangelogSections {
+    public groupCommitSections(
+        commits: GitLogCommitInfo[],
+        types: TCommitType[] = ProjectConfigService.load(this._context.cwd).types
+    ): ChangelogSections {
         const sections: ChangelogSections = {
+            breaking: [],
             added: [],
             fixed: [],
             documentation: [],
@@ -40,61 +69,323 @@ class ChangeLogService {
             security: []
         };
 
-        const keywordsMap: { [key: string]: keyof ChangelogSections } = {
-            feat: 'added',
-            fix: 'fixed',
-            docs: 'documentation',
-            style: 'changed',
-            refactor: 'changed',
-            perf: 'changed',
-            test: 'changed',
-            chore: 'changed',
-            build: 'changed',
-            ci: 'changed',
-            removed: 'removed',
-            deprecated: 'deprecated',
-            security: 'security'
-        };
+        const keywordsMap: { [key: string]: keyof ChangelogSections } = {};
+        types.forEach(type => {
+            if (type.changelogSection) keywordsMap[type.name] = type.changelogSection;
+        });
 
         commits.forEach(commit => {
-            const title = commit.title.toLowerCase();
-            for (const keyword in keywordsMap) {
-                if (title.startsWith(keyword)) {
-                    sections[keywordsMap[keyword]].push(commit);
-                    break;
-                }
-            }
+            const parsed = ConventionalCommitParser.tryParse(`${commit.title}\n\n${commit.body}`);
+            if (!parsed) return;
+            if (parsed.breaking) sections.breaking.push(commit);
+            const section = keywordsMap[parsed.type.toLowerCase()];
+            if (section) sections[section].push(commit);
         });
 
         return sections;
     }
 
     /**
-     * Generates a changelog file based on a list of commit objects.
+     * Gets the part of the version a release of the commits increases: major with a breaking change, minor with
+     * a commit whose type is listed in the `added` section, such as `feat`, and patch otherwise.
+     *
+     * @param {GitLogCommitInfo[]} commits - The commits of the release.
+     * @param {TCommitType[]} [types] - The commit types. Defaults to the types of the project configuration.
+     * @returns {TReleaseType | null} The bump, or `null` if there are no commits.
+     */
+    public recommendBump(
+        commits: GitLogCommitInfo[],
+        types: TCommitType[] = ProjectConfigService.load(this._context.cwd).types
+    ): TReleaseType | null {
+        if (commits.length === 0) return null;
+
+        const sections = this.groupCommitSections(commits, types);
+        if (sections.breaking.length > 0) return 'major';
+        if (sections.added.length > 0) return 'minor';
+        return 'patch';
+    }
+
+    /**
+     * Finds the range and the version of the next release. Unless `from` is given, the release starts after the
+     * latest semantic version tag of `to`, see {@link TaggerService#latestVersionTag}, or with the history if
+     * there is none.
+     *
+     * The version is, in order: `version`; the version of the `package.json` of the directory of the context,
+     * if it is newer than the latest tag; or the version of the latest tag bumped by the commits, see
+     * {@link ChangeLogService#recommendBump}, starting from `0.0.0` without tags. In the unreleased mode it is
+     * {@link UNRELEASED_VERSION}.
+     *
+     * @example
+     * const release = await service.resolveRelease();
+     * service.generateChangelog({ commits: release.commits, version: release.version });
+     *
+     * @param {TChangelogReleaseOptions} [options] - The range and the version, all of them optional.
+     * @returns {Promise<TChangelogRelease>} The release and its commits.
+     * @throws {AppError} If `version` is given in the unreleased mode, or is not a semantic version, or if the
+     * `package.json` cannot be parsed.
+     * @throws {ExternalServiceError} If git fails.
+     */
+    public async resolveRelease(options: TChangelogReleaseOptions = {}): Promise<TChangelogRelease> {
+        const { branch, version, unreleased = false } = options;
+        if (unreleased && version !== undefined)
+            ErrorHandler.throw(new AppError('A version cannot be given for the unreleased commits.'));
+        if (version !== undefined && parseSemver(version) === null)
+            ErrorHandler.throw(new AppError(`'${version}' is not a semantic version, such as 1.4.0.`));
+
+        const to = options.to ?? branch ?? 'HEAD';
+        const previousTag = await new TaggerService(this._context).latestVersionTag(to);
+        const from = options.from ?? previousTag;
+        const commits = await new FilesReportService(this._context).log({ from: from ?? undefined, to });
+        const bump = this.recommendBump(commits);
+        const release = { bump, previousTag, from, to, commits };
+
+        if (unreleased) return { ...release, version: UNRELEASED_VERSION, versionSource: 'unreleased' };
+        if (version !== undefined) return { ...release, version, versionSource: 'option' };
+
+        const latest = (previousTag && parseSemver(previousTag)) || null;
+        const pending = ChangeLogService._packageVersion(this._context.resolve('package.json'));
+        const current = pending && parseSemver(pending);
+        if (pending && current && (!latest || compareSemver(current, latest) > 0))
+            return { ...release, version: pending, versionSource: 'package' };
+
+        const base = latest ?? { major: 0, minor: 0, patch: 0, prerelease: null };
+        return { ...release, version: bumpSemver(base, bump ?? 'patch'), versionSource: 'bump' };
+    }
+
+    /**
+     * Writes the section of a release in a changelog file. A new file gets a `# Changelog` title. In an existing
+     * file the section goes below the text that precedes the releases and above the older releases, see
+     * {@link ChangeLogService#insertRelease}, and the rest of the file is kept as written.
      *
      * @param {object} data - An object containing the commits, version, and optional output file name.
      * @param {GitLogCommitInfo[]} data.commits - An array of commit objects.
-     * @param {string} data.version - The version number to include in the changelog.
-     * @param {string} [data.outputFile='changelog.md'] - The file name to save the changelog to.
+     * @param {string} data.version - The version number to include in the changelog, or
+     * {@link UNRELEASED_VERSION}, which is written without a date.
+     * @param {string} [data.outputFile='changelog.md'] - The file name to save the changelog to, relative to the
+     * directory of the context.
+     * @param {boolean} [data.force=false] - Replace the section of the version if the file already has one.
+     * @throws {AppError} If the file already has a section for the version and `force` is not set.
+     * @throws {FileServiceError} If the file cannot be read or written.
+     */
+    public generateChangelog(data: {
+        commits: GitLogCommitInfo[];
+        outputFile?: string;
+        version: string;
+        force?: boolean;
+    }) {
+        const { commits, version, outputFile = 'changelog.md', force = false } = data;
+        const file = this._context.resolve(outputFile);
+        const existing = existsSync(file) ? rf(file) : null;
+
+        if (existing === null) wf(file, `# Changelog\n\n${this.renderRelease({ commits, version })}`);
+        else wf(file, this.insertRelease(existing, { commits, version, force }));
+    }
+
+    /**
+     * Writes the section of a release: a `## <version> - <date>` heading, then a `###` heading and a list for
+     * every section with commits, see {@link ChangeLogService#groupCommitSections}.
+     *
+     * @param {object} data
+     * @param {GitLogCommitInfo[]} data.commits - The commits of the release.
+     * @param {string} data.version - The version of the release, or {@link UNRELEASED_VERSION}.
+     * @returns {string} The markdown of the section, ended by a line break.
      */
-    public static generateChangelog(data: { commits: GitLogCommitInfo[]; outputFile?: string; version: string }) {
-        const { commits, version, outputFile = 'changelog.md' } = data;
+    public renderRelease(data: { commits: GitLogCommitInfo[]; version: string }): string {
+        const { commits, version } = data;
         const sections = this.groupCommitSections(commits);
         const md = new MarkdownService();
 
-        md.addTitle('Changelog')
-            .addEndLine()
-            .addTitle(`${version} - ${new Date().toISOString().split('T')[0]}`, 2);
+        const date = new Date().toISOString().split('T')[0];
+        md.addTitle(version === UNRELEASED_VERSION ? version : `${version} - ${date}`, 2).addEndLine();
+
+        ChangeLogService._writeBreakingSection(sections.breaking, md);
+        ChangeLogService._writeSection(sections.added, 'Added', md);
+        ChangeLogService._writeSection(sections.fixed, 'Fixed', md);
+        ChangeLogService._writeSection(sections.changed, 'Changed', md);
+        ChangeLogService._writeSection(sections.removed, 'Removed', md);
+        ChangeLogService._writeSection(sections.documentation, 'Documentation', md);
+        ChangeLogService._writeSection(sections.deprecated, 'Deprecated', md);
+        ChangeLogService._writeSection(sections.security, 'Security', md);
+
+        return `${md.contentMarkdown.trimEnd()}\n`;
+    }
+
+    /**
+     * Adds the section of a release to the content of a changelog, whose release headings are found with
+     * {@link parseChangelogReleases}. The section goes above the first release, or at the end if there is none,
+     * so the title and the text above the releases stay on top.
+     *
+     * The section of the {@link UNRELEASED_VERSION} commits is always replaced, by the new unreleased commits or
+     * by the release that includes them. The section of any other version is only replaced with `force`. Every
+     * other line is kept as written.
+     *
+     * @param {string} markdown - The content of the changelog.
+     * @param {object} data
+     * @param {GitLogCommitInfo[]} data.commits - The commits of the release.
+     * @param {string} data.version - The version of the release, or {@link UNRELEASED_VERSION}.
+     * @param {boolean} [data.force=false] - Replace the section of the version if there is one.
+     * @returns {string} The new content of the changelog.
+     * @throws {AppError} If the changelog already has a section for the version and `force` is not set.
+     */
+    public insertRelease(
+        markdown: string,
+        data: { commits: GitLogCommitInfo[]; version: string; force?: boolean }
+    ): string {
+        const { commits, version, force = false } = data;
+        const lines = markdown.split('\n');
+        const releases = parseChangelogReleases(markdown);
+        const section = this.renderRelease({ commits, version }).split('\n');
+
+        const unreleased = releases.findIndex(release => release.version === UNRELEASED_VERSION);
+        const duplicate =
+            version === UNRELEASED_VERSION
+                ? -1
+                : releases.findIndex(
+                      release =>
+                          release.version !== UNRELEASED_VERSION &&
+                          ChangeLogService._sameVersion(release.version, version)
+                  );
+        if (duplicate >= 0 && !force) {
+            const error = new AppError(
+                `The changelog already has a section for ${releases[duplicate].version}. Use the force option to replace it.`
+            );
+            ErrorHandler.throw(error);
+            throw error;
+        }
+
+        const index = duplicate >= 0 ? duplicate : unreleased;
+        const replaced = releases[index];
+
+        // The section of a release ends where the next one starts
+        const start = replaced?.line ?? releases[0]?.line ?? lines.length;
+        const end = replaced ? (releases[index + 1]?.line ?? lines.length) : start;
+        const before = lines.slice(0, start);
+        const after = lines.slice(end);
+
+        while (before.length > 0 && before[before.length - 1].trim() === '') before.pop();
+        if (before.length > 0) before.push('');
+
+        return [...before, ...section, ...after].join('\n');
+    }
+
+    /**
+     * Gets the changelog of a release as a document with a stable schema, to serialize it with
+     * {@link OutputService.serialize}. The commits are grouped as in {@link ChangeLogService#generateChangelog}.
+     *
+     * @param {object} data
+     * @param {GitLogCommitInfo[]} data.commits - The commits of the release.
+     * @param {string} data.version - The version of the release.
+     * @returns {TChangelogDocument} The version, today's date and the commits of every section.
+     */
+    public toDocument(data: { commits: GitLogCommitInfo[]; version: string }): TChangelogDocument {
+        const sections = this.groupCommitSections(data.commits);
+        const entries = (commits: GitLogCommitInfo[]): TChangelogCommit[] =>
+            commits.map(({ hash, title, body, author, date }) => ({
+                hash,
+                title,
+                body,
+                author: { name: author.name, email: author.email },
+                date
+            }));
+
+        return {
+            schemaVersion: OUTPUT_SCHEMA_VERSION,
+            version: data.version,
+            date: new Date().toISOString().split('T')[0],
+            sections: {
+                breaking: entries(sections.breaking),
+                added: entries(sections.added),
+                fixed: entries(sections.fixed),
+                documentation: entries(sections.documentation),
+                changed: entries(sections.changed),
+                removed: entries(sections.removed),
+                deprecated: entries(sections.deprecated),
+                security: entries(sections.security)
+            }
+        };
+    }
+
+    /**
+     * See {@link ChangeLogService#groupCommitSections}, with the configuration of the current directory.
+     */
+    public static groupCommitSections(commits: GitLogCommitInfo[], types?: TCommitType[]): ChangelogSections {
+        return new ChangeLogService().groupCommitSections(commits, types);
+    }
+
+    /**
+     * See {@link ChangeLogService#recommendBump}, with the configuration of the current directory.
+     */
+    public static recommendBump(commits: GitLogCommitInfo[], types?: TCommitType[]): TReleaseType | null {
+        return new ChangeLogService().recommendBump(commits, types);
+    }
+
+    /**
+     * See {@link ChangeLogService#resolveRelease}, run in the current directory.
+     */
+    public static async resolveRelease(options?: TChangelogReleaseOptions): Promise<TChangelogRelease> {
+        return new ChangeLogService().resolveRelease(options);
+    }
+
+    /**
+     * See {@link ChangeLogService#generateChangelog}, run in the current directory.
+     */
+    public static generateChangelog(data: {
+        commits: GitLogCommitInfo[];
+        outputFile?: string;
+        version: string;
+        force?: boolean;
+    }) {
+        return new ChangeLogService().generateChangelog(data);
+    }
+
+    /**
+     * See {@link ChangeLogService#renderRelease}, with the configuration of the current directory.
+     */
+    public static renderRelease(data: { commits: GitLogCommitInfo[]; version: string }): string {
+        return new ChangeLogService().renderRelease(data);
+    }
+
+    /**
+     * See {@link ChangeLogService#insertRelease}, with the configuration of the current directory.
+     */
+    public static insertRelease(
+        markdown: string,
+        data: { commits: GitLogCommitInfo[]; version: string; force?: boolean }
+    ): string {
+        return new ChangeLogService().insertRelease(markdown, data);
+    }
 
-        this._writeSection(sections.added, 'Added', md);
-        this._writeSection(sections.fixed, 'Fixed', md);
-        this._writeSection(sections.changed, 'Changed', md);
-        this._writeSection(sections.removed, 'Removed', md);
-        this._writeSection(sections.documentation, 'Documentation', md);
-        this._writeSection(sections.deprecated, 'Deprecated', md);
-        this._writeSection(sections.security, 'Security', md);
+    /**
+     * See {@link ChangeLogService#toDocument}, with the configuration of the current directory.
+     */
+    public static toDocument(data: { commits: GitLogCommitInfo[]; version: string }): TChangelogDocument {
+        return new ChangeLogService().toDocument(data);
+    }
 
-        wf(outputFile, md.contentMarkdown);
+    /**
+     * Reads the version of a `package.json`, or `null` if the file does not exist or has no version.
+     */
+    private static _packageVersion(file: string): string | null {
+        if (!existsSync(file)) return null;
+
+        let json: { version?: unknown };
+        try {
+            json = JSON.parse(rf(file));
+        } catch (error) {
+            const err = new AppError(`Unable to read the version of ${file}: ${(error as Error).message}`);
+            ErrorHandler.throw(err);
+            throw err;
+        }
+        return typeof json.version === 'string' ? json.version : null;
+    }
+
+    /**
+     * Whether two versions of a changelog are the same, such as `v1.4.0` and `1.4.0`.
+     */
+    private static _sameVersion(a: string, b: string): boolean {
+        const left = parseSemver(a);
+        const right = parseSemver(b);
+        return left && right ? compareSemver(left, right) === 0 : a === b;
     }
 
     /**
@@ -108,7 +399,7 @@ class ChangeLogService {
      */
     private static _writeSection(commits: GitLogCommitInfo[], title: string, md: MarkdownService): void {
         if (commits.length === 0) return void 0;
-        md.addTitle(title, 2).addUnorderedList(
+        md.addTitle(title, 3).addUnorderedList(
             commits.map(commit => {
                 let message = `${commit.title} (#${commit.hash.slice(0, 7)}) - ${commit.author.name} \\<${commit.author.email}>`;
                 if (commit.body.length > 0) message += `\n\n  ${commit.body.split('\n').join('\n  ')}`;
@@ -116,6 +407,26 @@ class ChangeLogService {
             })
         );
     }
+
+    /**
+     * Writes the breaking changes section, listing every commit with the description of its `BREAKING CHANGE`
+     * footer, or its title if it only has the `!` marker.
+     *
+     * @param {GitLogCommitInfo[]} commits - The commits that introduce a breaking change.
+     * @param {MarkdownService} md - The markdown service instance used to create and modify the markdown content.
+     *
+     * @returns {void}
+     */
+    private static _writeBreakingSection(commits: GitLogCommitInfo[], md: MarkdownService): void {
+        if (commits.length === 0) return void 0;
+        md.addTitle('Breaking Changes', 3).addUnorderedList(
+            commits.map(commit => {
+                const parsed = ConventionalCommitParser.parseCommit(commit);
+                const description = parsed.breakingChange ?? parsed.subject;
+                return `${description.split('\n').join('\n  ')} (#${commit.hash.slice(0, 7)})`;
+            })
+        );
+    }
 }
 
 export { ChangeLogService };
@@ -0,0 +1,196 @@
+import { GitLogCommitInfo, TaskgitConfig, TCommitLintResult, TCommitLintViolation } from '@app-types';
+import { BranchService } from '@services/git-service/branch-service/BranchService';
+import { ConventionalCommitParser } from '@services/conventional-commit-service/ConventionalCommitParser';
+import { ConventionalCommitParseError } from '@services/error-handler';
+import { rf } from '@services/file-management-service/fileService';
+import { GitContext } from '@services/git-service/GitContext';
+import { FilesReportService } from '@services/git-service/report/FilesReportService';
+import { ProjectConfigService } from '@services/project-config-service/ProjectConfigService';
+
+const SCISSORS_LINE = /^# -+ >8 -+$/m;
+const GENERATED_MESSAGE_PATTERN = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+type TCommitLintOptions = {
+    /**
+     * The branch the commit belongs to, used by the protected branch rules.
+     */
+    branch?: string;
+    /**
+     * The configuration to lint against. Defaults to the project configuration.
+     */
+    config?: TaskgitConfig;
+};
+
+class CommitLintService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository whose commits are linted. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    /**
+     * Checks a commit message against the configured types, scopes and lint rules.
+     * Messages generated by git, such as merges, reverts and fixups, are always valid.
+     *
+     * @param {string} message - The commit message to lint.
+     * @param {TCommitLintOptions} [options]
+     * @param {string | null} [hash=null] - The hash of the commit the message belongs to.
+     * @returns {TCommitLintResult} The result of the lint, with the list of broken rules.
+     */
+    public lintMessage(
+        message: string,
+        { branch, config = ProjectConfigService.load(this._context.cwd) }: TCommitLintOptions = {},
+        hash: string | null = null
+    ): TCommitLintResult {
+        const header = message.trim().split('\n')[0] ?? '';
+        const violations: TCommitLintViolation[] = [];
+        const result = () => ({ hash, header, valid: violations.length === 0, violations });
+
+        if (GENERATED_MESSAGE_PATTERN.test(header)) return result();
+
+        const { lint, scopes, types } = config;
+        if (header.length > lint.maxTitleLength)
+            violations.push({
+                rule: 'title-max-length',
+                message: `The header is ${header.length} characters long, the maximum is ${lint.maxTitleLength}.`
+            });
+
+        let parsed;
+        try {
+            parsed = ConventionalCommitParser.parse(message);
+        } catch (error) {
+            if (!(error instanceof ConventionalCommitParseError)) throw error;
+            violations.push({ rule: 'header-format', message: error.message });
+            return result();
+        }
+
+        if (!types.some(t => t.name === parsed.type))
+            violations.push({
+                rule: 'type-enum',
+                message: `"${parsed.type}" is not an allowed type. Valid types are ${types.map(t => t.name).join(', ')}.`
+            });
+
+        if (parsed.scope !== null && scopes.length > 0 && !scopes.includes(parsed.scope))
+            violations.push({
+                rule: 'scope-enum',
+                message: `"${parsed.scope}" is not an allowed scope. Valid scopes are ${scopes.join(', ')}.`
+            });
+
+        if (lint.bodyRequiredTypes.includes(parsed.type) && parsed.body.length === 0)
+            violations.push({ rule: 'body-required', message: `Commits of type "${parsed.type}" require a body.` });
+
+        if (
+            branch &&
+            lint.protectedBranches.includes(branch) &&
+            lint.protectedBranchForbiddenTypes.includes(parsed.type)
+        )
+            violations.push({
+                rule: 'protected-branch-type',
+                message: `Commits of type "${parsed.type}" are not allowed on the protected branch "${branch}".`
+            });
+
+        return result();
+    }
+
+    /**
+     * Lints a commit message file, such as the one git passes to the `commit-msg` hook.
+     * Comment lines and everything below the scissors line are ignored. When no branch is given the current
+     * branch is used.
+     *
+     * @param {string} path - The path to the message file, relative to the directory of the context.
+     * @param {TCommitLintOptions} [options]
+     * @returns {Promise<TCommitLintResult>} The result of the lint.
+     * @throws {FileServiceError} If the file cannot be read.
+     */
+    public async lintFile(path: string, options: TCommitLintOptions = {}): Promise<TCommitLintResult> {
+        const branch = options.branch ?? (await new BranchService(this._context).getCurrentBranch());
+        const message = CommitLintService.stripComments(rf(this._context.resolve(path)));
+        return this.lintMessage(message, { ...options, branch });
+    }
+
+    /**
+     * Lints a list of commits obtained from the log.
+     *
+     * @param {GitLogCommitInfo[]} commits - The commits to lint.
+     * @param {TCommitLintOptions} [options]
+     * @returns {TCommitLintResult[]} The result of the lint of every commit.
+     */
+    public lintCommits(commits: GitLogCommitInfo[], options: TCommitLintOptions = {}): TCommitLintResult[] {
+        return commits.map(commit =>
+            this.lintMessage(
+                commit.body.length > 0 ? `${commit.title}\n\n${commit.body}` : commit.title,
+                options,
+                commit.hash
+            )
+        );
+    }
+
+    /**
+     * Lints every commit in a range of the log. When no branch is given the current branch is used.
+     *
+     * @param {object} args - The range of commits, see {@link FilesReportService.log}.
+     * @param {TCommitLintOptions} [options]
+     * @returns {Promise<TCommitLintResult[]>} The result of the lint of every commit.
+     * @throws {ExternalServiceError} If the log command fails.
+     */
+    public async lintRange(
+        args: { from?: string; to?: string; branch?: string },
+        options: TCommitLintOptions = {}
+    ): Promise<TCommitLintResult[]> {
+        const branch = args.branch ?? options.branch ?? (await new BranchService(this._context).getCurrentBranch());
+        const commits = await new FilesReportService(this._context).log({ ...args, branch });
+        return this.lintCommits(commits, { ...options, branch });
+    }
+
+    /**
+     * Removes the comment lines and the diff below the scissors line that git adds to the commit message file.
+     *
+     * @param {string} message - The content of the commit message file.
+     * @returns {string} The message without comments.
+     */
+    public static stripComments(message: string): string {
+        const scissors = SCISSORS_LINE.exec(message);
+        if (scissors) message = message.slice(0, scissors.index);
+        return message
+            .split('\n')
+            .filter(l => !l.startsWith('#'))
+            .join('\n')
+            .trim();
+    }
+
+    /**
+     * See {@link CommitLintService#lintMessage}, with the configuration of the current directory.
+     */
+    public static lintMessage(message: string, options?: TCommitLintOptions, hash?: string | null): TCommitLintResult {
+        return new CommitLintService().lintMessage(message, options, hash);
+    }
+
+    /**
+     * See {@link CommitLintService#lintFile}, run in the current directory.
+     */
+    public static async lintFile(path: string, options?: TCommitLintOptions): Promise<TCommitLintResult> {
+        return new CommitLintService().lintFile(path, options);
+    }
+
+    /**
+     * See {@link CommitLintService#lintCommits}, with the configuration of the current directory.
+     */
+    public static lintCommits(commits: GitLogCommitInfo[], options?: TCommitLintOptions): TCommitLintResult[] {
+        return new CommitLintService().lintCommits(commits, options);
+    }
+
+    /**
+     * See {@link CommitLintService#lintRange}, run in the current directory.
+     */
+    public static async lintRange(
+        args: { from?: string; to?: string; branch?: string },
+        options?: TCommitLintOptions
+    ): Promise<TCommitLintResult[]> {
+        return new CommitLintService().lintRange(args, options);
+    }
+}
+
+export { CommitLintService, type TCommitLintOptions };
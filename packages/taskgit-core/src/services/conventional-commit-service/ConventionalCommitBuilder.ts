@@ -0,0 +1,113 @@
+import { TCommitTrailer, TConventionalCommitDraft } from '@app-types';
+import { AppError, ErrorHandler } from '@services/error-handler';
+
+// A trailer written in a message, `key: value`
+const TRAILER_LINE_PATTERN = /^(?<key>BREAKING[ -]CHANGE|[A-Za-z][\w-]*)\s*:\s*(?<value>.*)$/;
+// A trailer given as `--trailer` input, which also accepts `key=value`
+const TRAILER_INPUT_PATTERN = /^(?<key>BREAKING[ -]CHANGE|[A-Za-z][\w-]*)\s*[:=]\s*(?<value>.*)$/;
+
+class ConventionalCommitBuilder {
+    /**
+     * Builds a commit message following the Conventional Commits specification.
+     *
+     * The `BREAKING CHANGE` footer and the trailers are added with the semantics of `git interpret-trailers`,
+     * see {@link ConventionalCommitBuilder.addTrailers}.
+     *
+     * @example
+     * ConventionalCommitBuilder.build({
+     *     type: 'feat',
+     *     scope: 'api',
+     *     subject: 'drop v1 endpoints',
+     *     breakingChange: 'the v1 endpoints are removed',
+     *     trailers: [{ key: 'Refs', value: '#12' }]
+     * });
+     *
+     * @param {TConventionalCommitDraft} draft - The parts of the commit message.
+     * @returns {string} The commit message.
+     */
+    public static build(draft: TConventionalCommitDraft): string {
+        const { type, scope, subject, body, breakingChange, trailers = [] } = draft;
+        const breaking = draft.breaking || !!breakingChange;
+
+        let message = `${type}${scope ? `(${scope})` : ''}${breaking ? '!' : ''}: ${subject.trim()}`;
+        if (body && body.trim().length > 0) message += `\n\n${body.trim()}`;
+
+        const footers = breakingChange
+            ? [{ key: 'BREAKING CHANGE', value: breakingChange.trim() }, ...trailers]
+            : trailers;
+        return this.addTrailers(message, footers);
+    }
+
+    /**
+     * Adds trailers to a commit message like `git interpret-trailers` does with its default configuration:
+     * the trailers are appended to the trailer block that ends the message, or to a new block separated from
+     * the message by a blank line, and a trailer is not added if an identical one already exists. Only
+     * `key: value` lines are read as trailers, and the message is kept as written.
+     *
+     * @param {string} message - The commit message.
+     * @param {TCommitTrailer[]} trailers - The trailers to add.
+     * @returns {string} The commit message with the trailers.
+     */
+    public static addTrailers(message: string, trailers: TCommitTrailer[]): string {
+        message = message.trim();
+        if (trailers.length === 0) return message;
+
+        // The trailer block is the last paragraph, if every line of it is a trailer
+        const breaks = [...message.matchAll(/\n[ \t]*\n\s*/g)];
+        const lastBreak = breaks[breaks.length - 1];
+        const lastParagraph = lastBreak ? message.slice(lastBreak.index + lastBreak[0].length).split('\n') : [];
+        const inBlock = lastParagraph.length > 0 && lastParagraph.every(l => TRAILER_LINE_PATTERN.test(l));
+
+        const block = inBlock
+            ? lastParagraph.map(l => {
+                  const { key, value } = TRAILER_LINE_PATTERN.exec(l)?.groups ?? {};
+                  return { key, value: value.trim() };
+              })
+            : [];
+        const added: TCommitTrailer[] = [];
+        trailers.forEach(trailer => {
+            const same = (t: TCommitTrailer) =>
+                t.key.toLowerCase() === trailer.key.toLowerCase() && t.value === trailer.value;
+            if (!block.some(same) && !added.some(same)) added.push(trailer);
+        });
+        if (added.length === 0) return message;
+
+        // The lines of the message, trailers included, are kept as written
+        const lines = added.map(t => `${t.key}: ${t.value}`).join('\n');
+        return `${message}${inBlock ? '\n' : '\n\n'}${lines}`;
+    }
+
+    /**
+     * Parses a trailer given as `key: value` or `key=value`, the formats accepted by
+     * `git interpret-trailers --trailer`.
+     *
+     * @param {string} text - The trailer to parse.
+     * @returns {TCommitTrailer} The parsed trailer.
+     * @throws {AppError} If the text is not a valid trailer.
+     */
+    public static parseTrailer(text: string): TCommitTrailer {
+        const match = TRAILER_INPUT_PATTERN.exec(text.trim());
+        if (!match?.groups || match.groups.value.trim().length === 0) {
+            const error = new AppError(`Invalid trailer '${text}', expected the format "key: value".`);
+            ErrorHandler.throw(error);
+            throw error;
+        }
+        return { key: match.groups.key, value: match.groups.value.trim() };
+    }
+
+    /**
+     * Builds the trailers of a list of issue references, e.g. `#123, PROJ-42` with the key `Closes`.
+     *
+     * @param {string} key - The trailer key, such as `Closes` or `Refs`.
+     * @param {string} references - The references, separated by commas or spaces.
+     * @returns {TCommitTrailer[]} A trailer for every reference.
+     */
+    public static issueTrailers(key: string, references: string): TCommitTrailer[] {
+        return references
+            .split(/[,\s]+/)
+            .filter(r => r.length > 0)
+            .map(value => ({ key, value }));
+    }
+}
+
+export { ConventionalCommitBuilder };
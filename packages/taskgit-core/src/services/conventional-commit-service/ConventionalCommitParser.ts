@@ -0,0 +1,124 @@
+import { ConventionalCommit, GitLogCommitInfo, TCommitTrailer } from '@app-types';
+import { ConventionalCommitParseError } from '@services/error-handler';
+
+const HEADER_PREFIX_PATTERN = /^(?<type>[^\s()!]*)(?:\((?<scope>[^()]*)\))?(?<breaking>!)?$/;
+const TYPE_PATTERN = /^[A-Za-z][\w-]*$/;
+const FOOTER_PATTERN = /^(?<key>BREAKING[ -]CHANGE|[A-Za-z][\w-]*)(?:: | (?=#))(?<value>.*)$/;
+
+class ConventionalCommitParser {
+    /**
+     * Parses a commit message following the Conventional Commits specification.
+     *
+     * @example
+     * ConventionalCommitParser.parse('feat(api)!: drop v1 endpoints\n\nBREAKING CHANGE: v1 is gone\nRefs: #12');
+     *
+     * @param {string} message - The full commit message, header included.
+     * @returns {ConventionalCommit} The parsed commit message.
+     * @throws {ConventionalCommitParseError} If the header does not follow the `type(scope)!: subject` format.
+     */
+    public static parse(message: string): ConventionalCommit {
+        const [header, ...lines] = message.replace(/\r\n/g, '\n').trim().split('\n');
+        const { type, scope, breakingMarker, subject } = this._parseHeader(header.trim());
+
+        const paragraphs = lines
+            .join('\n')
+            .split(/\n\s*\n/)
+            .map(p => p.trim())
+            .filter(p => p.length > 0);
+
+        let footers: TCommitTrailer[] = [];
+        const lastParagraph = paragraphs[paragraphs.length - 1];
+        if (lastParagraph && FOOTER_PATTERN.test(lastParagraph.split('\n')[0])) {
+            footers = this._parseFooters(lastParagraph);
+            paragraphs.pop();
+        }
+
+        const breakingFooter = footers.find(f => /^BREAKING[ -]CHANGE$/.test(f.key));
+
+        return {
+            header: header.trim(),
+            type,
+            scope,
+            breakingMarker,
+            breaking: breakingMarker || breakingFooter !== undefined,
+            subject,
+            body: paragraphs,
+            breakingChange: breakingFooter?.value ?? null,
+            trailers: footers.filter(f => f !== breakingFooter)
+        };
+    }
+
+    /**
+     * Parses a commit message, returning null instead of throwing if it does not follow the specification.
+     *
+     * @param {string} message - The full commit message, header included.
+     * @returns {ConventionalCommit | null} The parsed commit message, or null if it is malformed.
+     */
+    public static tryParse(message: string): ConventionalCommit | null {
+        try {
+            return this.parse(message);
+        } catch (error) {
+            if (error instanceof ConventionalCommitParseError) return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Parses the title and body of a commit obtained from the log.
+     *
+     * @param {GitLogCommitInfo} commit - The commit to parse.
+     * @returns {ConventionalCommit} The parsed commit message.
+     * @throws {ConventionalCommitParseError} If the title does not follow the `type(scope)!: subject` format.
+     */
+    public static parseCommit(commit: GitLogCommitInfo): ConventionalCommit {
+        return this.parse(commit.body.length > 0 ? `${commit.title}\n\n${commit.body}` : commit.title);
+    }
+
+    private static _parseHeader(header: string) {
+        const fail = (message: string): never => {
+            throw new ConventionalCommitParseError(`Malformed commit header '${header}': ${message}`, header);
+        };
+
+        if (header.length === 0) fail('the commit message is empty.');
+
+        const separator = header.indexOf(':');
+        if (separator === -1) fail('expected the format "type(scope)!: subject".');
+
+        const prefix = header.slice(0, separator);
+        const rest = header.slice(separator + 1);
+        const match = HEADER_PREFIX_PATTERN.exec(prefix);
+
+        if (!match?.groups) {
+            if (prefix.includes('(') && !prefix.includes(')')) fail('the scope is not closed.');
+            return fail(`"${prefix}" is not a valid type and scope.`);
+        }
+
+        const { type, scope, breaking } = match.groups;
+        if (type.length === 0) fail('the type is missing.');
+        if (!TYPE_PATTERN.test(type)) fail(`"${type}" is not a valid type.`);
+        if (scope !== undefined && scope.trim().length === 0) fail('the scope cannot be empty.');
+        if (rest.trim().length === 0) fail('the subject is missing.');
+        if (!rest.startsWith(' ')) fail('a space is required after the colon.');
+
+        return {
+            type,
+            scope: scope?.trim() ?? null,
+            breakingMarker: breaking === '!',
+            subject: rest.trim()
+        };
+    }
+
+    private static _parseFooters(paragraph: string): TCommitTrailer[] {
+        const footers: TCommitTrailer[] = [];
+
+        paragraph.split('\n').forEach(line => {
+            const match = FOOTER_PATTERN.exec(line);
+            if (match?.groups) footers.push({ key: match.groups.key, value: match.groups.value.trim() });
+            else if (footers.length > 0) footers[footers.length - 1].value += `\n${line}`;
+        });
+
+        return footers;
+    }
+}
+
+export { ConventionalCommitParser };
@@ -1,3 +1,4 @@
+import { TCommitLintResult, TRunResult } from '@app-types';
 import { NAME, VERSION, VERSION_NAME } from '@globals';
 import { ExecException } from 'node:child_process';
 
@@ -59,26 +60,79 @@ class ExternalServiceError extends AppError {
     }
 }
 
+class ProjectConfigError extends AppError {
+    public readonly file: string;
+
+    constructor(message: string, file: string) {
+        super(message, 2);
+        this.name = 'ProjectConfigError';
+        this.file = file;
+    }
+}
+
+class RepositoryError extends AppError {
+    public readonly path: string;
+
+    constructor(message: string, path: string) {
+        super(message, 2);
+        this.name = 'RepositoryError';
+        this.path = path;
+    }
+}
+
+class ConventionalCommitParseError extends AppError {
+    public readonly header: string;
+
+    constructor(message: string, header: string) {
+        super(message, 2);
+        this.name = 'ConventionalCommitParseError';
+        this.header = header;
+    }
+}
+
+class DiffParseError extends AppError {
+    public readonly hunk: string;
+
+    constructor(message: string, hunk: string) {
+        super(message, 2);
+        this.name = 'DiffParseError';
+        this.hunk = hunk;
+    }
+}
+
+class CommitLintError extends AppError {
+    public readonly results: TCommitLintResult[];
+
+    constructor(message: string, results: TCommitLintResult[]) {
+        super(message, 3);
+        this.name = 'CommitLintError';
+        this.results = results;
+    }
+}
+
 type CommandExecutionErrorConstructor = {
     message: string;
     command: string;
-    error: ExecException;
+    error: ExecException | Error;
     stdout: string;
     stderr: string;
+    result?: TRunResult;
 };
 class CommandExecutionError extends AppError {
     public readonly command: string;
-    public readonly error: ExecException;
+    public readonly error: ExecException | Error;
     public readonly stdout: string;
     public readonly stderr: string;
+    public readonly result?: TRunResult;
 
-    constructor({ command, error, message, stderr, stdout }: CommandExecutionErrorConstructor) {
+    constructor({ command, error, message, stderr, stdout, result }: CommandExecutionErrorConstructor) {
         super(message, 1);
         this.name = 'CommandExecutionError';
         this.command = command;
         this.error = error;
         this.stderr = stderr;
         this.stdout = stdout;
+        this.result = result;
     }
 }
 
@@ -107,8 +161,13 @@ class ErrorHandler {
 export {
     AppError,
     CommandExecutionError,
+    CommitLintError,
+    ConventionalCommitParseError,
+    DiffParseError,
     ErrorHandler,
     ExternalServiceError,
     FilesReportServiceError,
+    ProjectConfigError,
+    RepositoryError,
     type CommandExecutionErrorConstructor
 };
@@ -1,5 +1,9 @@
+import { TRunOptions, TRunResult } from '@app-types';
 import { AppError, CommandExecutionError, ErrorHandler } from '@services/error-handler';
-import { exec, ExecException, execSync } from 'node:child_process';
+import { exec, ExecException, execSync, spawn } from 'node:child_process';
+import { StringDecoder } from 'node:string_decoder';
+
+const DEFAULT_MAX_BUFFER = 64 * 1024 * 1024;
 
 /**
  * Checks if a given string is a safe command to execute.
@@ -31,6 +35,7 @@ const isSafeCommand = (command: string, iKnowWhatImDoing: boolean = false) => {
  *                the method will wait for the promise to resolve before deciding
  *                what to do.
  * @returns A promise that resolves with the output of the command as a string.
+ * @deprecated The command goes through the shell, use {@link runCommand} or {@link runGit} instead.
  */
 const exeCommand = async (
     command: string,
@@ -62,8 +67,8 @@ const exeCommand = async (
  * @returns {string} - The output of the executed command.
  * @throws {AppError} - If the command is deemed unsafe.
  * @throws {CommandExecutionError} - If command execution fails and the onError callback returns false.
+ * @deprecated The command goes through the shell, use {@link runCommand} or {@link runGit} instead.
  */
-
 const exeCommandSync = (
     command: string,
     onError: (even: CommandExecutionError) => boolean | Promise<boolean> = () => false,
@@ -110,4 +115,224 @@ const exeMultipleCommandsSync = (commands: string[]) => {
     return commands.map(c => exeCommandSync(c));
 };
 
-export { exeCommand, exeCommandSync, exeMultipleCommands, exeMultipleCommandsSync, isSafeCommand };
+/**
+ * Joins an executable and its arguments for display, quoting the arguments that need it.
+ */
+const displayCommand = (file: string, args: string[]) =>
+    [file, ...args.map(a => (/^[\w@%+=:,./-]+$/.test(a) ? a : JSON.stringify(a)))].join(' ');
+
+/**
+ * Runs an executable with the given arguments, without a shell. The arguments are passed as they are, so they
+ * never need quoting and cannot inject commands.
+ *
+ * @example
+ * const { stdout } = await runCommand('git', ['tag', '-a', 'v1.0.0', '-m', 'First "stable" release']);
+ *
+ * @param {string} file - The executable to run.
+ * @param {string[]} args - The arguments of the executable.
+ * @param {TRunOptions} [options] - The options of the process.
+ * @returns {Promise<TRunResult>} The output, exit code and duration of the process.
+ * @throws {CommandExecutionError} If the process cannot be started, is aborted, times out, exceeds the max
+ * buffer, or exits with a non zero code while `options.reject` is not false.
+ */
+const runCommand = async (file: string, args: string[], options: TRunOptions = {}): Promise<TRunResult> => {
+    const { cwd, env, input, timeout, signal, maxBuffer = DEFAULT_MAX_BUFFER, reject = true } = options;
+    const command = displayCommand(file, args);
+    const start = Date.now();
+
+    const { result, error } = await new Promise<{ result: TRunResult; error?: Error }>(resolve => {
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        let size = 0;
+        let failure: Error | undefined;
+
+        const child = spawn(file, args, {
+            cwd,
+            env: env ? { ...process.env, ...env } : process.env,
+            timeout,
+            signal,
+            windowsHide: true
+        });
+
+        const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBuffer && !failure) {
+                failure = new Error(`The output of '${command}' exceeded the max buffer of ${maxBuffer} bytes.`);
+                child.kill();
+            }
+            chunks.push(chunk);
+        };
+        child.stdout.on('data', collect(stdout));
+        child.stderr.on('data', collect(stderr));
+        child.on('error', err => (failure = failure ?? err));
+        child.on('close', (code, killSignal) => {
+            if (!failure && code === null)
+                failure = new Error(
+                    timeout && Date.now() - start >= timeout
+                        ? `'${command}' timed out after ${timeout}ms.`
+                        : `'${command}' was killed with ${killSignal}.`
+                );
+            resolve({
+                result: {
+                    command,
+                    stdout: Buffer.concat(stdout).toString('utf-8'),
+                    stderr: Buffer.concat(stderr).toString('utf-8'),
+                    exitCode: code ?? -1,
+                    duration: Date.now() - start
+                },
+                error: failure
+            });
+        });
+
+        child.stdin.on('error', () => void 0);
+        child.stdin.end(input);
+    });
+
+    if (error || (reject && result.exitCode !== 0)) ErrorHandler.throw(commandError(result, error));
+
+    return result;
+};
+
+/**
+ * Runs git with the given arguments, without a shell. See {@link runCommand}.
+ *
+ * @example
+ * const { stdout } = await runGit(['log', '--oneline', 'my branch'], { cwd: '/path/to/repo' });
+ *
+ * @param {string[]} args - The arguments of git.
+ * @param {TRunOptions} [options] - The options of the process.
+ * @returns {Promise<TRunResult>} The output, exit code and duration of the process.
+ * @throws {CommandExecutionError} If the process fails, see {@link runCommand}.
+ */
+const runGit = async (args: string[], options: TRunOptions = {}): Promise<TRunResult> => {
+    return runCommand('git', args, options);
+};
+
+/**
+ * Runs an executable like {@link runCommand}, yielding its stdout as it is written instead of buffering it, so
+ * outputs of any size can be read. The process is killed if the iteration is stopped before its end.
+ *
+ * @example
+ * for await (const chunk of streamCommand('git', ['log', '-z'])) parse(chunk);
+ *
+ * @param {string} file - The executable to run.
+ * @param {string[]} args - The arguments of the executable.
+ * @param {TRunOptions} [options] - The options of the process. `maxBuffer` only limits stderr.
+ * @returns {AsyncGenerator<string>} The chunks of stdout, decoded as UTF-8.
+ * @throws {CommandExecutionError} Once the output is read, if the process cannot be started, is aborted, times
+ * out, or exits with a non zero code while `options.reject` is not false. The stdout of the error is empty.
+ */
+async function* streamCommand(file: string, args: string[], options: TRunOptions = {}): AsyncGenerator<string> {
+    const { cwd, env, input, timeout, signal, maxBuffer = DEFAULT_MAX_BUFFER, reject = true } = options;
+    const command = displayCommand(file, args);
+    const start = Date.now();
+    const stderr: Buffer[] = [];
+    let stderrSize = 0;
+    let failure: Error | undefined;
+    let finished = false;
+
+    const child = spawn(file, args, {
+        cwd,
+        env: env ? { ...process.env, ...env } : process.env,
+        timeout,
+        signal,
+        windowsHide: true
+    });
+    const closed = new Promise<{ code: number | null; killSignal: NodeJS.Signals | null }>(resolve =>
+        child.on('close', (code, killSignal) => resolve({ code, killSignal }))
+    );
+    child.stderr.on('data', (chunk: Buffer) => {
+        stderrSize += chunk.length;
+        if (stderrSize <= maxBuffer) stderr.push(chunk);
+    });
+    child.on('error', err => (failure = failure ?? err));
+    child.stdin.on('error', () => void 0);
+    child.stdin.end(input);
+
+    try {
+        const decoder = new StringDecoder('utf-8');
+        for await (const chunk of child.stdout) {
+            const text = decoder.write(chunk);
+            if (text.length > 0) yield text;
+        }
+        const rest = decoder.end();
+        if (rest.length > 0) yield rest;
+
+        const { code, killSignal } = await closed;
+        finished = true;
+        if (!failure && code === null)
+            failure = new Error(
+                timeout && Date.now() - start >= timeout
+                    ? `'${command}' timed out after ${timeout}ms.`
+                    : `'${command}' was killed with ${killSignal}.`
+            );
+
+        const result = {
+            command,
+            stdout: '',
+            stderr: Buffer.concat(stderr).toString('utf-8'),
+            exitCode: code ?? -1,
+            duration: Date.now() - start
+        };
+        if (failure || (reject && result.exitCode !== 0)) ErrorHandler.throw(commandError(result, failure));
+    } finally {
+        // The consumer stopped early, git does not need to write the rest
+        if (!finished) child.kill();
+    }
+}
+
+/**
+ * Runs git with the given arguments, yielding its stdout as it is written. See {@link streamCommand}.
+ *
+ * @param {string[]} args - The arguments of git.
+ * @param {TRunOptions} [options] - The options of the process.
+ * @returns {AsyncGenerator<string>} The chunks of stdout.
+ * @throws {CommandExecutionError} If the process fails, see {@link streamCommand}.
+ */
+const streamGit = (args: string[], options: TRunOptions = {}): AsyncGenerator<string> => {
+    return streamCommand('git', args, options);
+};
+
+/**
+ * Gets the output of a process as `exeCommand` did: stdout, or stderr if stdout is empty. Useful for commands
+ * such as `git push`, which report their result on stderr.
+ *
+ * @param {TRunResult} result - The result of the process.
+ * @returns {string} The output of the process.
+ */
+const commandOutput = (result: TRunResult): string => {
+    return result.stdout.length > 0 ? result.stdout : result.stderr;
+};
+
+/**
+ * Builds the error of a failed process.
+ *
+ * @param {TRunResult} result - The result of the process.
+ * @param {Error} [error] - The reason of the failure. Defaults to the non zero exit code.
+ * @returns {CommandExecutionError} The error, with the output and the result of the process.
+ */
+const commandError = (result: TRunResult, error?: Error): CommandExecutionError => {
+    const { command, exitCode, stderr, stdout } = result;
+    return new CommandExecutionError({
+        command,
+        error: error ?? new Error(`'${command}' exited with code ${exitCode}.`),
+        message: error?.message ?? `Command failed: ${command}\n${stderr.trim()}`,
+        stdout,
+        stderr,
+        result
+    });
+};
+
+export {
+    commandError,
+    commandOutput,
+    exeCommand,
+    exeCommandSync,
+    exeMultipleCommands,
+    exeMultipleCommandsSync,
+    isSafeCommand,
+    runCommand,
+    runGit,
+    streamCommand,
+    streamGit
+};
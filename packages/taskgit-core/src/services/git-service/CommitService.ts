@@ -0,0 +1,53 @@
+import { TMP_DIR } from '@globals';
+import { commandOutput } from '@services/exe-service';
+import { sha1, wf } from '@services/file-management-service/fileService';
+import { GitContext } from '@services/git-service/GitContext';
+import { existsSync, mkdirSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+
+class CommitService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository to commit to. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    /**
+     * Creates a commit with the staged changes.
+     *
+     * The message is written to a temporary file and passed with `git commit -F`, so it is committed exactly
+     * as given: quotes, backticks, `$()`, shell operators and multiple paragraphs are never interpreted by the
+     * shell.
+     *
+     * @param {string} message - The full commit message.
+     * @param {object} [options]
+     * @param {boolean} [options.amend=false] - Whether to amend the previous commit.
+     * @returns {Promise<string>} The output of the commit command.
+     * @throws {CommandExecutionError} If the commit fails, e.g. when a hook rejects it.
+     */
+    public async commit(message: string, { amend = false }: { amend?: boolean } = {}): Promise<string> {
+        if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+        const messageFile = join(TMP_DIR, `${sha1(message + Date.now().toString(16))}-COMMIT_MSG`);
+        wf(messageFile, message.endsWith('\n') ? message : `${message}\n`);
+
+        try {
+            const args = ['commit', '--cleanup=whitespace', '-F', messageFile];
+            if (amend) args.push('--amend');
+            return commandOutput(await this._context.git(args));
+        } finally {
+            unlinkSync(messageFile);
+        }
+    }
+
+    /**
+     * See {@link CommitService#commit}, run in the current directory.
+     */
+    public static async commit(message: string, options?: { amend?: boolean }): Promise<string> {
+        return new CommitService().commit(message, options);
+    }
+}
+
+export { CommitService };
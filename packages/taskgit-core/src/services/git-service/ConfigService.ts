@@ -1,15 +1,24 @@
-import { exeCommand } from '@services/exe-service';
+import { GitContext } from '@services/git-service/GitContext';
 
 class ConfigService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository whose configuration is read. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
     /**
      * Get the user configuration from Git.
      *
      * @returns A promise that resolves with an object containing the user name and email.
      * @throws {FilesReportServiceError} If the command fails.
      */
-    public static async getUser() {
-        const name = await exeCommand('git config user.name');
-        const email = await exeCommand('git config user.email');
+    public async getUser() {
+        const name = (await this._context.git(['config', 'user.name'], { reject: false })).stdout.trim();
+        const email = (await this._context.git(['config', 'user.email'], { reject: false })).stdout.trim();
 
         return { name, email, toString: () => `${name} <${email}>` };
     }
@@ -20,10 +29,25 @@ class ConfigService {
      * @param name The user's name to set in the Git configuration.
      * @param email The user's email to set in the Git configuration.
      * @returns A promise that resolves when the user configuration is successfully set.
-     * @throws {FilesReportServiceError} If the command fails.
+     * @throws {CommandExecutionError} If the command fails.
+     */
+    public async setUser(name: string, email: string) {
+        await this._context.git(['config', 'user.name', name]);
+        await this._context.git(['config', 'user.email', email]);
+    }
+
+    /**
+     * See {@link ConfigService#getUser}, run in the current directory.
+     */
+    public static async getUser() {
+        return new ConfigService().getUser();
+    }
+
+    /**
+     * See {@link ConfigService#setUser}, run in the current directory.
      */
     public static async setUser(name: string, email: string) {
-        await exeCommand(`git config user.name "${name}" && git config user.email "${email}"`);
+        return new ConfigService().setUser(name, email);
     }
 }
 
@@ -0,0 +1,94 @@
+import { GitExecutor, TRunOptions, TRunResult } from '@app-types';
+import { ChildProcessGitExecutor } from '@services/git-service/executor/ChildProcessGitExecutor';
+import { resolve } from 'node:path';
+
+class GitContext {
+    private static _default: GitContext | null = null;
+    private readonly _cwd: string | null;
+    /**
+     * The executor git is run with.
+     */
+    public readonly executor: GitExecutor;
+
+    /**
+     * Creates the context the git services run in.
+     *
+     * @param {string} [cwd] - The directory git runs in. When omitted, the current working directory of the
+     * process at the time of every call is used.
+     * @param {GitExecutor} [executor] - The executor git is run with. Defaults to {@link ChildProcessGitExecutor}.
+     */
+    constructor(cwd?: string, executor: GitExecutor = new ChildProcessGitExecutor()) {
+        this._cwd = cwd ? resolve(cwd) : null;
+        this.executor = executor;
+    }
+
+    /**
+     * The directory git runs in.
+     */
+    public get cwd(): string {
+        return this._cwd ?? process.cwd();
+    }
+
+    /**
+     * Resolves a path relative to the directory of the context.
+     *
+     * @param {...string} paths - The path segments to resolve.
+     * @returns {string} The absolute path.
+     */
+    public resolve(...paths: string[]): string {
+        return resolve(this.cwd, ...paths);
+    }
+
+    /**
+     * Runs git in the directory of the context with its executor.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process. The working directory cannot be changed.
+     * @returns {Promise<TRunResult>} The output, exit code and duration of the process.
+     * @throws {CommandExecutionError} If the process fails.
+     */
+    public async git(args: string[], options: TRunOptions = {}): Promise<TRunResult> {
+        return this.executor.run(args, { ...options, cwd: this.cwd });
+    }
+
+    /**
+     * Runs git in the directory of the context, yielding its stdout as it is written, for outputs too large to
+     * be buffered such as the log of a long history.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process. The working directory cannot be changed.
+     * @returns {AsyncIterable<string>} The chunks of stdout.
+     * @throws {CommandExecutionError} Once the output is read, if the process fails.
+     */
+    public gitStream(args: string[], options: TRunOptions = {}): AsyncIterable<string> {
+        const executor = this.executor;
+        const runOptions = { ...options, cwd: this.cwd };
+        if (executor.stream) return executor.stream(args, runOptions);
+
+        return (async function* () {
+            yield (await executor.run(args, runOptions)).stdout;
+        })();
+    }
+
+    /**
+     * Gets the context used by the static methods of the services, which runs in the current working directory
+     * unless it is replaced with {@link GitContext.setDefault}.
+     *
+     * @returns {GitContext} The default context.
+     */
+    public static default(): GitContext {
+        return (this._default ??= new GitContext());
+    }
+
+    /**
+     * Replaces the context used by the static methods of the services, e.g. with one using a
+     * {@link FakeGitExecutor} in a test.
+     *
+     * @param {GitContext | null} context - The new default context, or null to restore the original one.
+     */
+    public static setDefault(context: GitContext | null): void {
+        this._default = context;
+    }
+}
+
+export { GitContext };
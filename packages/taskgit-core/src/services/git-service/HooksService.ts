@@ -0,0 +1,203 @@
+import { TGitHookName, TGitHookStatus } from '@app-types';
+import { GIT_HOOK_CHAINED_SUFFIX, GIT_HOOK_MARKER, GIT_HOOK_NAMES } from '@globals';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { rf, wf } from '@services/file-management-service/fileService';
+import { GitContext } from '@services/git-service/GitContext';
+import { ProjectConfigService } from '@services/project-config-service/ProjectConfigService';
+import { chmodSync, existsSync, mkdirSync, renameSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+
+const HOOK_BODIES: Record<TGitHookName, string> = {
+    'commit-msg': '$TASKGIT lint --file "$1"',
+    'prepare-commit-msg': '$TASKGIT hooks prepare-commit-msg --file "$1" --source "$2"',
+    'pre-push': [
+        'printf "%s\\n" "$input" | while read -r local_ref local_sha remote_ref remote_sha; do',
+        '    case "$local_sha" in *[!0]*) ;; *) continue ;; esac',
+        '    case "$remote_sha" in',
+        '        *[!0]*) range_from="$remote_sha" ;;',
+        '        *) range_from="$(git merge-base "$local_sha" "refs/remotes/$1/HEAD" 2>/dev/null)" ;;',
+        '    esac',
+        '    if [ -z "$range_from" ]; then',
+        '        # Without the HEAD of the remote, the commits that none of its branches has are pushed',
+        '        first="$(git rev-list --reverse "$local_sha" --not --remotes="$1" | head -n 1)"',
+        '        [ -z "$first" ] && continue',
+        '        range_from="$(git rev-parse --verify --quiet "$first^")"',
+        '    fi',
+        '    $TASKGIT lint ${range_from:+--from "$range_from"} --to "$local_sha" --branch "${remote_ref#refs/heads/}" || exit $?',
+        'done || exit $?'
+    ].join('\n')
+};
+
+class HooksService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository the hooks are installed in. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    /**
+     * Gets the directory where git looks for the hooks, honoring `core.hooksPath`.
+     *
+     * @returns {Promise<string>} The absolute path of the hooks directory.
+     * @throws {CommandExecutionError} If the current directory is not a git repository.
+     */
+    public async getHooksDir(): Promise<string> {
+        return this._context.resolve((await this._context.git(['rev-parse', '--git-path', 'hooks'])).stdout.trim());
+    }
+
+    /**
+     * Installs the taskgit hooks. A hook not managed by taskgit is kept, renamed with the
+     * `.taskgit-chained` suffix, and called before the taskgit one.
+     *
+     * @param {TGitHookName[]} [hooks] - The hooks to install. Defaults to all of them.
+     * @returns {Promise<TGitHookStatus[]>} The state of the hooks after the installation.
+     * @throws {AppError} If a foreign hook exists and a chained hook is already kept for it.
+     */
+    public async install(hooks: TGitHookName[] = GIT_HOOK_NAMES): Promise<TGitHookStatus[]> {
+        const dir = await this.getHooksDir();
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+        for (const status of await this.status(hooks)) {
+            if (status.foreign) {
+                if (status.chained)
+                    ErrorHandler.throw(
+                        new AppError(
+                            `Unable to install the '${status.name}' hook: both '${status.path}' and its chained hook already exist.`
+                        )
+                    );
+                renameSync(status.path, status.path + GIT_HOOK_CHAINED_SUFFIX);
+            }
+            wf(status.path, HooksService._buildScript(status.name));
+            chmodSync(status.path, 0o755);
+        }
+
+        return this.status(hooks);
+    }
+
+    /**
+     * Removes the taskgit hooks, restoring the chained hooks they were installed over.
+     * Hooks not managed by taskgit are left untouched.
+     *
+     * @param {TGitHookName[]} [hooks] - The hooks to uninstall. Defaults to all of them.
+     * @returns {Promise<TGitHookStatus[]>} The state of the hooks after the removal.
+     */
+    public async uninstall(hooks: TGitHookName[] = GIT_HOOK_NAMES): Promise<TGitHookStatus[]> {
+        for (const status of await this.status(hooks)) {
+            if (!status.installed) continue;
+            unlinkSync(status.path);
+            if (status.chained) renameSync(status.path + GIT_HOOK_CHAINED_SUFFIX, status.path);
+        }
+
+        return this.status(hooks);
+    }
+
+    /**
+     * Gets the installation state of the hooks.
+     *
+     * @param {TGitHookName[]} [hooks] - The hooks to check. Defaults to all of them.
+     * @returns {Promise<TGitHookStatus[]>} The state of every hook.
+     */
+    public async status(hooks: TGitHookName[] = GIT_HOOK_NAMES): Promise<TGitHookStatus[]> {
+        const dir = await this.getHooksDir();
+
+        return hooks.map(name => {
+            const path = join(dir, name);
+            const exists = existsSync(path);
+            const installed = exists && rf(path).includes(GIT_HOOK_MARKER);
+            return {
+                name,
+                path,
+                installed,
+                chained: existsSync(path + GIT_HOOK_CHAINED_SUFFIX),
+                foreign: exists && !installed
+            };
+        });
+    }
+
+    /**
+     * Pre-fills the commit message file with a template of the configured types and scopes, as comments.
+     * Nothing is done when the message comes from `-m`, `-F`, a merge, a squash or an amend, or if the file
+     * already has a message.
+     *
+     * @param {string} file - The commit message file git passes to the `prepare-commit-msg` hook, relative to the
+     * directory of the context.
+     * @param {string} [source] - The source of the message git passes to the hook.
+     */
+    public prepareCommitMessage(file: string, source?: string): void {
+        if (source) return void 0;
+
+        const path = this._context.resolve(file);
+        const content = rf(path);
+        if (content.split('\n').some(l => l.trim().length > 0 && !l.startsWith('#'))) return void 0;
+
+        const { types, scopes } = ProjectConfigService.load(this._context.cwd);
+        const template = [
+            '# <type>(<scope>)!: <subject>',
+            '#',
+            `# Types: ${types.map(t => t.name).join(', ')}`,
+            ...(scopes.length > 0 ? [`# Scopes: ${scopes.join(', ')}`] : [])
+        ];
+
+        wf(path, `\n${template.join('\n')}\n${content}`);
+    }
+
+    /**
+     * See {@link HooksService#getHooksDir}, run in the current directory.
+     */
+    public static async getHooksDir(): Promise<string> {
+        return new HooksService().getHooksDir();
+    }
+
+    /**
+     * See {@link HooksService#install}, run in the current directory.
+     */
+    public static async install(hooks?: TGitHookName[]): Promise<TGitHookStatus[]> {
+        return new HooksService().install(hooks);
+    }
+
+    /**
+     * See {@link HooksService#uninstall}, run in the current directory.
+     */
+    public static async uninstall(hooks?: TGitHookName[]): Promise<TGitHookStatus[]> {
+        return new HooksService().uninstall(hooks);
+    }
+
+    /**
+     * See {@link HooksService#status}, run in the current directory.
+     */
+    public static async status(hooks?: TGitHookName[]): Promise<TGitHookStatus[]> {
+        return new HooksService().status(hooks);
+    }
+
+    /**
+     * See {@link HooksService#prepareCommitMessage}, run in the current directory.
+     */
+    public static prepareCommitMessage(file: string, source?: string): void {
+        return new HooksService().prepareCommitMessage(file, source);
+    }
+
+    private static _buildScript(name: TGitHookName): string {
+        const chained = `"$(dirname "$0")/${name}${GIT_HOOK_CHAINED_SUFFIX}"`;
+        const lines = [
+            '#!/bin/sh',
+            GIT_HOOK_MARKER,
+            "# Installed by taskgit, run 'taskgit hooks uninstall' to remove it.",
+            '',
+            'if command -v taskgit >/dev/null 2>&1; then TASKGIT=taskgit; else TASKGIT="npx --no-install taskgit"; fi',
+            ''
+        ];
+
+        if (name === 'pre-push') {
+            lines.push('input="$(cat)"');
+            lines.push(`if [ -x ${chained} ]; then printf "%s\\n" "$input" | ${chained} "$@" || exit $?; fi`);
+        } else lines.push(`if [ -x ${chained} ]; then ${chained} "$@" || exit $?; fi`);
+
+        lines.push('', HOOK_BODIES[name], '');
+        return lines.join('\n');
+    }
+}
+
+export { HooksService };
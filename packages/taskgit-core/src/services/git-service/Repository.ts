@@ -0,0 +1,116 @@
+import { GitExecutor, TaskgitConfig } from '@app-types';
+import { ChangeLogService } from '@services/changelog-service/ChangeLogService';
+import { CommitLintService } from '@services/commit-lint-service/CommitLintService';
+import { ErrorHandler, RepositoryError } from '@services/error-handler';
+import { BranchService } from '@services/git-service/branch-service/BranchService';
+import { CommitService } from '@services/git-service/CommitService';
+import { ConfigService } from '@services/git-service/ConfigService';
+import { DiffService } from '@services/git-service/diff/DiffService';
+import { GitContext } from '@services/git-service/GitContext';
+import { HooksService } from '@services/git-service/HooksService';
+import { FilesReportService } from '@services/git-service/report/FilesReportService';
+import { StagingService } from '@services/git-service/StagingService';
+import { SubtreeService } from '@services/git-service/SubtreeService';
+import { TaggerService } from '@services/git-service/TaggerService';
+import { ProjectConfigService } from '@services/project-config-service/ProjectConfigService';
+import { existsSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+class Repository {
+    /**
+     * The root directory of the worktree. Every service runs git in it.
+     */
+    public readonly root: string;
+    /**
+     * The absolute path of the git directory, usually `<root>/.git`.
+     */
+    public readonly gitDir: string;
+    /**
+     * The context the services of the repository run in.
+     */
+    public readonly context: GitContext;
+
+    public readonly branches: BranchService;
+    public readonly changelog: ChangeLogService;
+    public readonly commits: CommitService;
+    public readonly config: ConfigService;
+    public readonly diff: DiffService;
+    public readonly hooks: HooksService;
+    public readonly lint: CommitLintService;
+    public readonly report: FilesReportService;
+    public readonly staging: StagingService;
+    public readonly subtrees: SubtreeService;
+    public readonly tags: TaggerService;
+
+    private constructor(root: string, gitDir: string, executor?: GitExecutor) {
+        this.root = root;
+        this.gitDir = gitDir;
+        this.context = new GitContext(root, executor);
+
+        this.branches = new BranchService(this.context);
+        this.changelog = new ChangeLogService(this.context);
+        this.commits = new CommitService(this.context);
+        this.config = new ConfigService(this.context);
+        this.diff = new DiffService(this.context);
+        this.hooks = new HooksService(this.context);
+        this.lint = new CommitLintService(this.context);
+        this.report = new FilesReportService(this.context);
+        this.staging = new StagingService(this.context);
+        this.subtrees = new SubtreeService(this.context);
+        this.tags = new TaggerService(this.context);
+    }
+
+    /**
+     * Opens the repository that contains the given directory. The services of the repository run in the root of
+     * its worktree, so the paths they receive are relative to it.
+     *
+     * @example
+     * const repository = await Repository.open('/path/to/project/packages/app');
+     * const commits = await repository.report.log({ branch: 'main' });
+     *
+     * @param {string} [path=process.cwd()] - A directory inside the worktree of the repository.
+     * @param {object} [options]
+     * @param {GitExecutor} [options.executor] - The executor git is run with. Defaults to
+     * {@link ChildProcessGitExecutor}. A custom executor must answer `rev-parse --show-toplevel --absolute-git-dir`,
+     * and the directory is not required to exist.
+     * @returns {Promise<Repository>} The repository.
+     * @throws {RepositoryError} If the directory does not exist or is not inside the worktree of a repository.
+     */
+    public static async open(
+        path: string = process.cwd(),
+        { executor }: { executor?: GitExecutor } = {}
+    ): Promise<Repository> {
+        const dir = resolve(path);
+        if (!executor && (!existsSync(dir) || !statSync(dir).isDirectory()))
+            this._fail(`The directory '${dir}' does not exist.`, dir);
+
+        const { stdout, exitCode } = await new GitContext(dir, executor).git(
+            ['rev-parse', '--show-toplevel', '--absolute-git-dir'],
+            { reject: false }
+        );
+        const [root, gitDir] = stdout.trim().split('\n');
+        if (exitCode !== 0 || !root || !gitDir)
+            this._fail(`'${dir}' is not inside the worktree of a git repository.`, dir);
+
+        return new Repository(root, gitDir, executor);
+    }
+
+    /**
+     * Loads the taskgit configuration of the project, see {@link ProjectConfigService.load}.
+     *
+     * @param {boolean} [reload=false] - Whether to ignore the cached configuration.
+     * @returns {TaskgitConfig} The configuration, or the defaults if the project has no configuration file.
+     * @throws {ProjectConfigError} If the configuration file is not valid.
+     */
+    public loadConfig(reload: boolean = false): TaskgitConfig {
+        return ProjectConfigService.load(this.root, reload);
+    }
+
+    private static _fail(message: string, path: string): never {
+        const error = new RepositoryError(message, path);
+        ErrorHandler.throw(error);
+        throw error;
+    }
+}
+
+export { Repository };
@@ -0,0 +1,267 @@
+import { TIndexEntry, TRecoveryResult } from '@app-types';
+import { CacheFile, CacheStore } from '@services/cache/cacheService';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { commandOutput } from '@services/exe-service';
+import { DiffOutputFile } from '@services/git-service/diff/DiffOutputFile';
+import { GitContext } from '@services/git-service/GitContext';
+
+type TApplyOptions = {
+    /**
+     * Whether to apply the patch to the index instead of the working tree.
+     */
+    cached?: boolean;
+    /**
+     * Whether to apply the patch in reverse.
+     */
+    reverse?: boolean;
+};
+
+class StagingService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository whose index is changed. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    /**
+     * Applies a patch with `git apply`. The patch is passed through the standard input, so it is never written
+     * to disk.
+     *
+     * @param {string} patch - The patch.
+     * @param {TApplyOptions} [options]
+     * @returns {Promise<string>} The output of the command.
+     * @throws {CommandExecutionError} If the patch does not apply. Nothing is changed then.
+     */
+    public async applyPatch(patch: string, options: TApplyOptions = {}): Promise<string> {
+        return commandOutput(await this._context.git(this._applyArgs(options), { input: patch }));
+    }
+
+    /**
+     * Checks if a patch applies cleanly, without applying it.
+     *
+     * @param {string} patch - The patch.
+     * @param {TApplyOptions} [options]
+     * @returns {Promise<boolean>} Whether the patch applies.
+     */
+    public async canApplyPatch(patch: string, options: TApplyOptions = {}): Promise<boolean> {
+        const args = [...this._applyArgs(options), '--check'];
+        return (await this._context.git(args, { input: patch, reject: false })).exitCode === 0;
+    }
+
+    /**
+     * Gets the index entry of a file.
+     *
+     * @param {string} path - The path of the file, relative to the directory of the context.
+     * @returns {Promise<TIndexEntry | null>} The entry, or null if the file is not in the index or has conflicts.
+     */
+    public async getIndexEntry(path: string): Promise<TIndexEntry | null> {
+        const { stdout } = await this._context.git(['ls-files', '--stage', '--', `:(literal)${path}`]);
+        const match = /^(\d{6}) ([0-9a-f]+) 0\t/m.exec(stdout);
+        return match ? { mode: match[1], object: match[2] } : null;
+    }
+
+    /**
+     * Sets the index entry of a file, without touching the working tree.
+     *
+     * @param {string} path - The path of the file, relative to the directory of the context.
+     * @param {TIndexEntry | null} entry - The entry, or null to remove the file from the index.
+     * @throws {CommandExecutionError} If the index cannot be updated.
+     */
+    public async setIndexEntry(path: string, entry: TIndexEntry | null): Promise<void> {
+        if (entry)
+            await this._context.git(['update-index', '--add', '--cacheinfo', `${entry.mode},${entry.object},${path}`]);
+        else await this._context.git(['update-index', '--force-remove', '--', path]);
+    }
+
+    /**
+     * Stages the selected changes of a file, applying its accepted patch to the index with `git apply --cached`.
+     * The working tree is never touched. A recovery point is saved before, see {@link StagingService#recover}.
+     *
+     * @param {DiffOutputFile} file - The file, with the changes to stage selected.
+     * @returns {Promise<boolean>} False if no change is selected.
+     * @throws {AppError} If the selected changes do not apply to the index, e.g. because it changed since the
+     * diff was read. Nothing is staged then.
+     */
+    public async stage(file: DiffOutputFile): Promise<boolean> {
+        const patch = file.getAcceptedDiffPatch();
+        if (!patch) return false;
+        if (!(await this.canApplyPatch(patch, { cached: true })))
+            ErrorHandler.throw(new AppError(`The selected changes of '${file.fileName}' do not apply to the index.`));
+
+        await this._protect(file, file.getTotalDiffPatch(), () => this.applyPatch(patch, { cached: true }));
+        return true;
+    }
+
+    /**
+     * Unstages the selected changes of a file, applying them reversed to the index. The working tree is never
+     * touched. A recovery point is saved before, see {@link StagingService#recover}.
+     *
+     * @param {DiffOutputFile} file - The file, parsed from a diff of the index against HEAD, with the changes to
+     * unstage selected.
+     * @returns {Promise<boolean>} False if no change is selected.
+     * @throws {AppError} If the selected changes do not apply to the index. Nothing is unstaged then.
+     */
+    public async unstage(file: DiffOutputFile): Promise<boolean> {
+        const patch = file.reverse().getAcceptedDiffPatch();
+        if (!patch) return false;
+        if (!(await this.canApplyPatch(patch, { cached: true })))
+            ErrorHandler.throw(new AppError(`The selected changes of '${file.fileName}' do not apply to the index.`));
+
+        await this._protect(file, '', () => this.applyPatch(patch, { cached: true }));
+        return true;
+    }
+
+    /**
+     * Discards the selected changes of a file, applying them reversed to the working tree. The index is never
+     * touched. A backup of the discarded changes is saved in the cache directory, and a recovery point is saved
+     * before, so {@link StagingService#recover} brings them back until the next run.
+     *
+     * @param {DiffOutputFile} file - The file, parsed from a diff of the working tree against the index, with the
+     * changes to discard selected.
+     * @returns {Promise<CacheFile | null>} The backup, a patch that applies the discarded changes again, or null
+     * if no change is selected.
+     * @throws {AppError} If the selected changes do not apply to the working tree. Nothing is discarded then.
+     */
+    public async discard(file: DiffOutputFile): Promise<CacheFile | null> {
+        const patch = file.reverse().getAcceptedDiffPatch();
+        if (!patch) return null;
+        if (!(await this.canApplyPatch(patch)))
+            ErrorHandler.throw(
+                new AppError(`The selected changes of '${file.fileName}' do not apply to the working tree.`)
+            );
+
+        const restore = DiffOutputFile.parse(patch).reverse().getTotalDiffPatch();
+        const backup = new CacheStore().createBackupPatch({
+            repository: await this._gitDir(),
+            filePath: file.fileName,
+            patch: restore
+        });
+        await this._protect(file, restore, () => this.applyPatch(patch));
+        return backup;
+    }
+
+    /**
+     * Checks if the previous run did not finish, leaving recovery points that were not completed.
+     *
+     * @returns {Promise<boolean>} Whether the previous run was interrupted.
+     */
+    public async hasInterruptedRun(): Promise<boolean> {
+        return new CacheStore().getRecoveryPoints(await this._gitDir()).some(point => !point.completed);
+    }
+
+    /**
+     * Starts a new run, removing the recovery points of the previous one.
+     *
+     * @throws {AppError} If the previous run was interrupted. Its files must be recovered first.
+     */
+    public async startRun(): Promise<void> {
+        if (await this.hasInterruptedRun())
+            ErrorHandler.throw(new AppError('The previous run was interrupted, its files must be recovered first.'));
+
+        const cache = new CacheStore();
+        cache.getRecoveryPoints(await this._gitDir()).forEach(point => cache.clearRecoveryPoint(point));
+    }
+
+    /**
+     * Restores the files changed by the last run, newest change first: the index entry of every file is set
+     * back, and its working tree changes are applied again if they were lost or discarded.
+     *
+     * The recovery point of a file whose working tree changed since, so that its changes no longer apply, is
+     * kept and reported as a conflict.
+     *
+     * @returns {Promise<TRecoveryResult[]>} The outcome for every recovery point.
+     * @throws {CommandExecutionError} If the index cannot be updated.
+     */
+    public async recover(): Promise<TRecoveryResult[]> {
+        const cache = new CacheStore();
+        const results: TRecoveryResult[] = [];
+
+        for (const point of cache.getRecoveryPoints(await this._gitDir()).reverse()) {
+            await this.setIndexEntry(point.filePath, point.index);
+
+            const patch = point.patch.content;
+            let restored = patch.length === 0 || (await this.canApplyPatch(patch, { reverse: true }));
+            if (!restored && (await this.canApplyPatch(patch))) {
+                await this.applyPatch(patch);
+                restored = true;
+            }
+
+            if (restored) cache.clearRecoveryPoint(point);
+            results.push({
+                filePath: point.filePath,
+                status: restored ? 'restored' : 'conflict',
+                patchFile: point.patch.cacheFilePath
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * See {@link StagingService#stage}, run in the current directory.
+     */
+    public static async stage(file: DiffOutputFile): Promise<boolean> {
+        return new StagingService().stage(file);
+    }
+
+    /**
+     * See {@link StagingService#unstage}, run in the current directory.
+     */
+    public static async unstage(file: DiffOutputFile): Promise<boolean> {
+        return new StagingService().unstage(file);
+    }
+
+    /**
+     * See {@link StagingService#discard}, run in the current directory.
+     */
+    public static async discard(file: DiffOutputFile): Promise<CacheFile | null> {
+        return new StagingService().discard(file);
+    }
+
+    /**
+     * See {@link StagingService#recover}, run in the current directory.
+     */
+    public static async recover(): Promise<TRecoveryResult[]> {
+        return new StagingService().recover();
+    }
+
+    /**
+     * Runs a change of a file, saving a recovery point before and completing it once the change finishes. A renamed
+     * file gets a recovery point for each path, and the patch is kept by the first one.
+     */
+    private async _protect(file: DiffOutputFile, patch: string, change: () => Promise<unknown>): Promise<void> {
+        const cache = new CacheStore();
+        const repository = await this._gitDir();
+        const paths = [...new Set([file.oldPath, file.newPath])];
+
+        const points = [];
+        for (const [i, filePath] of paths.entries())
+            points.push(
+                cache.createRecoveryPoint({
+                    repository,
+                    filePath,
+                    index: await this.getIndexEntry(filePath),
+                    patch: i === 0 ? patch : ''
+                })
+            );
+
+        await change();
+        points.forEach(point => cache.completeRecoveryPoint(point));
+    }
+
+    private async _gitDir(): Promise<string> {
+        return (await this._context.git(['rev-parse', '--absolute-git-dir'])).stdout.trim();
+    }
+
+    private _applyArgs({ cached = false, reverse = false }: TApplyOptions): string[] {
+        const args = ['apply'];
+        if (cached) args.push('--cached');
+        if (reverse) args.push('--reverse');
+        return [...args, '-'];
+    }
+}
+
+export { StagingService, type TApplyOptions };
@@ -0,0 +1,27 @@
+import { AppError } from '@services/error-handler';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import { GitContext } from '@services/git-service/GitContext';
+import { SubtreeService } from '@services/git-service/SubtreeService';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('SubtreeService', () => {
+    it('joins the prefix to its option', async () => {
+        const fake = new FakeGitExecutor()
+            .on(['subtree', 'add', '--prefix=-lib', 'https://example.com/lib.git', 'master'], 'Added\n')
+            .on(['subtree', 'split', '--prefix=-lib', '--branch=lib'], 'a1b2c3\n');
+        const subtrees = new SubtreeService(new GitContext('/repo', fake));
+
+        assert.equal(await subtrees.addSubtree('https://example.com/lib.git', '-lib'), 'Added\n');
+        assert.equal(await subtrees.splitSubtreeToLocal('-lib', 'lib'), 'a1b2c3\n');
+    });
+
+    it('rejects the repositories and branches git would read as options', async () => {
+        const fake = new FakeGitExecutor();
+        const subtrees = new SubtreeService(new GitContext('/repo', fake));
+
+        await assert.rejects(subtrees.fetchSubtree('--upload-pack=touch pwned', 'lib'), AppError);
+        await assert.rejects(subtrees.splitSubtreeToLocal('lib', '-D'), AppError);
+        assert.deepEqual(fake.calls, []);
+    });
+});
@@ -1,14 +1,27 @@
-import { exeCommand } from '@services/exe-service';
+import { commandOutput } from '@services/exe-service';
+import { GitContext } from '@services/git-service/GitContext';
+import { assertGitName } from '@utils/gitServiceUtils';
 
 class SubtreeService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository the subtrees belong to. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
     /**
      * Add a subtree to the current repository.
      *
      * @param url The URL of the subtree to add.
      * @param path The path to add the subtree to.
      */
-    public static async addSubtree(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree add --prefix ${path} ${url} master`);
+    public async addSubtree(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git(['subtree', 'add', `--prefix=${path}`, assertGitName(url, 'repository'), 'master'])
+        );
     }
 
     /**
@@ -16,8 +29,8 @@ class SubtreeService {
      *
      * @param path The path of the subtree to remove.
      */
-    public static async removeSubtree(path: string): Promise<string> {
-        return await exeCommand(`git subtree remove --prefix ${path}`);
+    public async removeSubtree(path: string): Promise<string> {
+        return commandOutput(await this._context.git(['subtree', 'remove', `--prefix=${path}`]));
     }
 
     /**
@@ -27,8 +40,10 @@ class SubtreeService {
      * @param path The path within the repository where the subtree is located.
      * @returns A promise that resolves to the result of the git subtree pull command.
      */
-    public static async updateSubtree(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree pull --prefix ${path} ${url} master`);
+    public async updateSubtree(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git(['subtree', 'pull', `--prefix=${path}`, assertGitName(url, 'repository'), 'master'])
+        );
     }
 
     /**
@@ -38,8 +53,10 @@ class SubtreeService {
      * @param path The path within the repository where the subtree is located.
      * @returns A promise that resolves to the result of the git subtree push command.
      */
-    public static async pushSubtree(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree push --prefix ${path} ${url} master`);
+    public async pushSubtree(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git(['subtree', 'push', `--prefix=${path}`, assertGitName(url, 'repository'), 'master'])
+        );
     }
 
     /**
@@ -49,8 +66,16 @@ class SubtreeService {
      * @param path The path within the repository where the subtree is located.
      * @returns A promise that resolves to the result of the git subtree fetch command.
      */
-    public static async fetchSubtree(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree fetch --prefix ${path} ${url} master`);
+    public async fetchSubtree(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'subtree',
+                'fetch',
+                `--prefix=${path}`,
+                assertGitName(url, 'repository'),
+                'master'
+            ])
+        );
     }
 
     /**
@@ -64,8 +89,16 @@ class SubtreeService {
      * @param path The path within the repository where the subtree is located.
      * @returns A promise that resolves to the result of the git subtree split command.
      */
-    public static async splitSubtreeToRemote(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree split --prefix ${path} ${url} master`);
+    public async splitSubtreeToRemote(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'subtree',
+                'split',
+                `--prefix=${path}`,
+                assertGitName(url, 'repository'),
+                'master'
+            ])
+        );
     }
 
     /**
@@ -75,8 +108,16 @@ class SubtreeService {
      * @param path The path within the repository where the subtree is located.
      * @returns A promise that resolves to the result of the git subtree merge command.
      */
-    public static async mergeSubtreeToRemote(url: string, path: string): Promise<string> {
-        return await exeCommand(`git subtree merge --prefix ${path} ${url} master`);
+    public async mergeSubtreeToRemote(url: string, path: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'subtree',
+                'merge',
+                `--prefix=${path}`,
+                assertGitName(url, 'repository'),
+                'master'
+            ])
+        );
     }
 
     /**
@@ -88,8 +129,71 @@ class SubtreeService {
      * @param branch The name of the new branch to create.
      * @returns A promise that resolves to the result of the git subtree split command.
      */
+    public async splitSubtreeToLocal(path: string, branch: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'subtree',
+                'split',
+                `--prefix=${path}`,
+                `--branch=${assertGitName(branch, 'branch')}`
+            ])
+        );
+    }
+
+    /**
+     * See {@link SubtreeService#addSubtree}, run in the current directory.
+     */
+    public static async addSubtree(url: string, path: string): Promise<string> {
+        return new SubtreeService().addSubtree(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#removeSubtree}, run in the current directory.
+     */
+    public static async removeSubtree(path: string): Promise<string> {
+        return new SubtreeService().removeSubtree(path);
+    }
+
+    /**
+     * See {@link SubtreeService#updateSubtree}, run in the current directory.
+     */
+    public static async updateSubtree(url: string, path: string): Promise<string> {
+        return new SubtreeService().updateSubtree(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#pushSubtree}, run in the current directory.
+     */
+    public static async pushSubtree(url: string, path: string): Promise<string> {
+        return new SubtreeService().pushSubtree(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#fetchSubtree}, run in the current directory.
+     */
+    public static async fetchSubtree(url: string, path: string): Promise<string> {
+        return new SubtreeService().fetchSubtree(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#splitSubtreeToRemote}, run in the current directory.
+     */
+    public static async splitSubtreeToRemote(url: string, path: string): Promise<string> {
+        return new SubtreeService().splitSubtreeToRemote(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#mergeSubtreeToRemote}, run in the current directory.
+     */
+    public static async mergeSubtreeToRemote(url: string, path: string): Promise<string> {
+        return new SubtreeService().mergeSubtreeToRemote(url, path);
+    }
+
+    /**
+     * See {@link SubtreeService#splitSubtreeToLocal}, run in the current directory.
+     */
     public static async splitSubtreeToLocal(path: string, branch: string): Promise<string> {
-        return await exeCommand(`git subtree split --prefix ${path} -b ${branch}`);
+        return new SubtreeService().splitSubtreeToLocal(path, branch);
     }
 }
 
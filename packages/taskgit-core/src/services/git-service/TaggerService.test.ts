@@ -0,0 +1,69 @@
+import { AppError } from '@services/error-handler';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import { GitContext } from '@services/git-service/GitContext';
+import { TaggerService } from '@services/git-service/TaggerService';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const ORDER_BY_DATE = ['--simplify-by-decoration', '--decorate-refs=refs/tags/', '--pretty=format:%D'];
+
+describe('TaggerService', () => {
+    it('lists the tags of the remote', async () => {
+        const fake = new FakeGitExecutor().on(
+            ['ls-remote', '--tags'],
+            'a1b2c3\trefs/tags/v1.0.0\nd4e5f6\trefs/tags/v1.1.0\n'
+        );
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        assert.deepEqual(await tagger.listTagsRemote(), [
+            { tag: 'v1.0.0', commit: 'a1b2c3' },
+            { tag: 'v1.1.0', commit: 'd4e5f6' }
+        ]);
+        assert.deepEqual(fake.calls, [{ args: ['ls-remote', '--tags'], options: { reject: false, cwd: '/repo' } }]);
+    });
+
+    it('lists no remote tags when the remote cannot be read', async () => {
+        const fake = new FakeGitExecutor().on(['ls-remote', '--tags'], { stderr: 'fatal: no remote', exitCode: 128 });
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        assert.deepEqual(await tagger.listTagsRemote(), []);
+    });
+
+    it('finds the latest semantic version tag of a branch', async () => {
+        const fake = new FakeGitExecutor().on(
+            ['log', ...ORDER_BY_DATE, '--end-of-options', 'main', '--'],
+            'tag: nightly, tag: v2.0.0-rc.1\ntag: v1.4.0\ntag: release-1\n'
+        );
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        assert.deepEqual(await tagger.listOrderByDate('main'), ['nightly', 'v2.0.0-rc.1', 'v1.4.0', 'release-1']);
+        assert.equal(await tagger.latestVersionTag('main'), 'v2.0.0-rc.1');
+    });
+
+    it('finds no version tag in a history without one', async () => {
+        const fake = new FakeGitExecutor().on(
+            ['log', ...ORDER_BY_DATE, '--end-of-options', 'HEAD', '--'],
+            'tag: nightly\n'
+        );
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        assert.equal(await tagger.latestVersionTag(), null);
+    });
+
+    it('passes the names after the options', async () => {
+        const fake = new FakeGitExecutor().on(['tag', '-a', '-m', 'Release', '--end-of-options', 'v1.0.0'], '');
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        await tagger.createAnnotatedTag({ name: 'v1.0.0', message: 'Release' });
+        assert.equal(fake.calls.length, 1);
+    });
+
+    it('rejects the names git would read as options', async () => {
+        const fake = new FakeGitExecutor();
+        const tagger = new TaggerService(new GitContext('/repo', fake));
+
+        await assert.rejects(tagger.deleteRemoteTag('v1.0.0', '--upload-pack=touch pwned'), AppError);
+        await assert.rejects(tagger.createLightweightTag('--help'), AppError);
+        assert.deepEqual(fake.calls, []);
+    });
+});
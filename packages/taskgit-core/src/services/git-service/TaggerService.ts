@@ -1,7 +1,20 @@
-import { exeCommand } from '@services/exe-service';
-import { parseTagsList } from '@utils/gitServiceUtils';
+import { TTagEntry, TTagsDocument } from '@app-types';
+import { OUTPUT_SCHEMA_VERSION } from '@globals';
+import { commandOutput } from '@services/exe-service';
+import { GitContext } from '@services/git-service/GitContext';
+import { assertGitName, parseTagsList } from '@utils/gitServiceUtils';
+import { parseSemver } from '@utils/semverUtils';
 
 class TaggerService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository the tags belong to. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
     /**
      * Creates an annotated tag on the local repository.
      *
@@ -10,10 +23,11 @@ class TaggerService {
      * @param {string} [param0.message] An optional message for the annotated tag.
      * @returns {Promise<string>} The result of the command.
      */
-    public static async createAnnotatedTag({ message, name }: { name: string; message?: string }): Promise<string> {
-        let command = `git tag -a ${name}`;
-        if (message) command += ` -m "${message}"`;
-        return await exeCommand(command);
+    public async createAnnotatedTag({ message, name }: { name: string; message?: string }): Promise<string> {
+        const args = ['tag', '-a'];
+        if (message) args.push('-m', message);
+        args.push('--end-of-options', assertGitName(name, 'tag'));
+        return commandOutput(await this._context.git(args));
     }
 
     /**
@@ -22,8 +36,8 @@ class TaggerService {
      * @param {string} name The name of the tag to create.
      * @returns {Promise<string>} The result of the command.
      */
-    public static async createLightweightTag(name: string): Promise<string> {
-        return await exeCommand(`git tag ${name}`);
+    public async createLightweightTag(name: string): Promise<string> {
+        return commandOutput(await this._context.git(['tag', '--end-of-options', assertGitName(name, 'tag')]));
     }
 
     /**
@@ -33,8 +47,8 @@ class TaggerService {
      * @returns {Promise<string>} The result of the command.
      */
 
-    public static async deleteTag(name: string): Promise<string> {
-        return await exeCommand(`git tag -d ${name}`);
+    public async deleteTag(name: string): Promise<string> {
+        return commandOutput(await this._context.git(['tag', '-d', '--end-of-options', assertGitName(name, 'tag')]));
     }
 
     /**
@@ -43,8 +57,10 @@ class TaggerService {
      * @param {string} name The name of the tag to push.
      * @returns {Promise<string>} The result of the command.
      */
-    public static async pushTag(name: string): Promise<string> {
-        return await exeCommand(`git push origin ${name}`);
+    public async pushTag(name: string): Promise<string> {
+        return commandOutput(
+            await this._context.git(['push', '--end-of-options', 'origin', assertGitName(name, 'tag')])
+        );
     }
 
     /**
@@ -54,8 +70,16 @@ class TaggerService {
      * @param {string} [remote='origin'] The name of the remote repository to delete the tag from.
      * @returns {Promise<string>} The result of the command.
      */
-    public static async deleteRemoteTag(name: string, remote: string = 'origin'): Promise<string> {
-        return await exeCommand(`git push --delete ${remote} ${name}`);
+    public async deleteRemoteTag(name: string, remote: string = 'origin'): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'push',
+                '--delete',
+                '--end-of-options',
+                assertGitName(remote, 'remote'),
+                assertGitName(name, 'tag')
+            ])
+        );
     }
 
     /**
@@ -65,13 +89,13 @@ class TaggerService {
      * `tag` property containing the tag name, and a `commit` property containing the commit hash the tag points to.
      * If there are no tags in the local repository, an empty list is returned.
      */
-    public static async listTagsLocal(): Promise<
+    public async listTagsLocal(): Promise<
         {
             tag: string;
             commit: string;
         }[]
     > {
-        const list = parseTagsList(await exeCommand('git show-ref --tags'));
+        const list = parseTagsList((await this._context.git(['show-ref', '--tags'], { reject: false })).stdout);
 
         return list.length === 0 ? [] : list;
     }
@@ -83,7 +107,7 @@ class TaggerService {
      *
      * @returns {Promise<boolean>} A promise that resolves to true if the tag exists, false otherwise.
      */
-    public static async tagExists(tag: string): Promise<boolean> {
+    public async tagExists(tag: string): Promise<boolean> {
         const tags = await this.listTagsNamesLocal();
         return tags.includes(tag);
     }
@@ -93,8 +117,8 @@ class TaggerService {
      *
      * @returns {Promise<string[]>} A list of tag names, or an empty list if there are no tags in the local repository.
      */
-    public static async listTagsNamesLocal(): Promise<string[]> {
-        return (await exeCommand('git tag')).split('\n');
+    public async listTagsNamesLocal(): Promise<string[]> {
+        return (await this._context.git(['tag'])).stdout.split('\n').filter(t => t.length > 0);
     }
 
     /**
@@ -104,38 +128,142 @@ class TaggerService {
      * `tag` property containing the tag name, and a `commit` property containing the commit hash the tag points to.
      * If there are no tags in the remote repository, an empty list is returned.
      */
-    public static async listTagsRemote(): Promise<
+    public async listTagsRemote(): Promise<
         {
             tag: string;
             commit: string;
         }[]
     > {
-        const list = parseTagsList((await exeCommand('git ls-remote --tags')).slice(1));
+        const list = parseTagsList((await this._context.git(['ls-remote', '--tags'], { reject: false })).stdout);
 
         return list.length === 0 ? [] : list;
     }
 
     /**
-     * Lists all tag names in the repository, ordered by the date they were created.
+     * Lists all tag names in the repository, ordered by the date of the commits they point to, newest first. The
+     * tags of the same commit are listed in the order of `git log`.
      *
-     * @returns {Promise<string[]>} A promise that resolves to an array of tag names, ordered by creation date.
-     * The tag names are extracted and formatted from the git log command output.
+     * @param {string} [ref] - Only list the tags in the history of this commit, such as a branch. Defaults to the
+     * tags of every branch.
+     * @returns {Promise<string[]>} A promise that resolves to an array of tag names, ordered by date.
      */
-    public static async listOrderByDate(): Promise<string[]> {
-        //git log --tags --simplify-by-decoration --pretty="format:%d" --abbrev-commit
-        const data = await exeCommand('git log --tags --simplify-by-decoration --pretty="format:%d" --abbrev-commit');
+    public async listOrderByDate(ref?: string): Promise<string[]> {
+        const { stdout: data } = await this._context.git([
+            'log',
+            '--simplify-by-decoration',
+            '--decorate-refs=refs/tags/',
+            '--pretty=format:%D',
+            ...(ref ? ['--end-of-options', assertGitName(ref, 'commit')] : ['--tags']),
+            '--'
+        ]);
 
-        const value = data
+        return data
             .split('\n')
-            .filter(v => v.length > 0)
-            .map(v => {
-                v = v.replace('(tag: ', '');
-                v = v.replace(')', '');
-                v = v.split(' ')[1];
-                v = v.replace(',', '');
-                return v;
-            });
-        return value;
+            .flatMap(line => line.split(', '))
+            .filter(ref => ref.startsWith('tag: '))
+            .map(ref => ref.slice('tag: '.length));
+    }
+
+    /**
+     * Gets the latest tag named after a semantic version, such as `v1.4.0` or `2.0.0-rc.1`, in the order of
+     * {@link TaggerService#listOrderByDate}. It is the tag the next release starts from.
+     *
+     * @param {string} [ref='HEAD'] - The commit whose history is searched.
+     * @returns {Promise<string | null>} The name of the tag, or `null` if there is none.
+     */
+    public async latestVersionTag(ref: string = 'HEAD'): Promise<string | null> {
+        const tags = await this.listOrderByDate(ref);
+        return tags.find(tag => parseSemver(tag) !== null) ?? null;
+    }
+
+    /**
+     * See {@link TaggerService#createAnnotatedTag}, run in the current directory.
+     */
+    public static async createAnnotatedTag(tag: { name: string; message?: string }): Promise<string> {
+        return new TaggerService().createAnnotatedTag(tag);
+    }
+
+    /**
+     * See {@link TaggerService#createLightweightTag}, run in the current directory.
+     */
+    public static async createLightweightTag(name: string): Promise<string> {
+        return new TaggerService().createLightweightTag(name);
+    }
+
+    /**
+     * See {@link TaggerService#deleteTag}, run in the current directory.
+     */
+    public static async deleteTag(name: string): Promise<string> {
+        return new TaggerService().deleteTag(name);
+    }
+
+    /**
+     * See {@link TaggerService#pushTag}, run in the current directory.
+     */
+    public static async pushTag(name: string): Promise<string> {
+        return new TaggerService().pushTag(name);
+    }
+
+    /**
+     * See {@link TaggerService#deleteRemoteTag}, run in the current directory.
+     */
+    public static async deleteRemoteTag(name: string, remote?: string): Promise<string> {
+        return new TaggerService().deleteRemoteTag(name, remote);
+    }
+
+    /**
+     * See {@link TaggerService#listTagsLocal}, run in the current directory.
+     */
+    public static async listTagsLocal(): Promise<{ tag: string; commit: string }[]> {
+        return new TaggerService().listTagsLocal();
+    }
+
+    /**
+     * See {@link TaggerService#tagExists}, run in the current directory.
+     */
+    public static async tagExists(tag: string): Promise<boolean> {
+        return new TaggerService().tagExists(tag);
+    }
+
+    /**
+     * See {@link TaggerService#listTagsNamesLocal}, run in the current directory.
+     */
+    public static async listTagsNamesLocal(): Promise<string[]> {
+        return new TaggerService().listTagsNamesLocal();
+    }
+
+    /**
+     * See {@link TaggerService#listTagsRemote}, run in the current directory.
+     */
+    public static async listTagsRemote(): Promise<{ tag: string; commit: string }[]> {
+        return new TaggerService().listTagsRemote();
+    }
+
+    /**
+     * See {@link TaggerService#listOrderByDate}, run in the current directory.
+     */
+    public static async listOrderByDate(ref?: string): Promise<string[]> {
+        return new TaggerService().listOrderByDate(ref);
+    }
+
+    /**
+     * See {@link TaggerService#latestVersionTag}, run in the current directory.
+     */
+    public static async latestVersionTag(ref?: string): Promise<string | null> {
+        return new TaggerService().latestVersionTag(ref);
+    }
+
+    /**
+     * Gets tag listings as a document with a stable schema, to serialize it with {@link OutputService.serialize}.
+     *
+     * @param {object} tags
+     * @param {TTagEntry[]} [tags.local] - The local tags, from {@link TaggerService#listTagsLocal}.
+     * @param {TTagEntry[]} [tags.remote] - The tags of the remote, from {@link TaggerService#listTagsRemote}.
+     * @returns {TTagsDocument} The document, with null for the listings that are not given.
+     */
+    public static toDocument({ local, remote }: { local?: TTagEntry[]; remote?: TTagEntry[] }): TTagsDocument {
+        const entries = (list?: TTagEntry[]) => list?.map(({ tag, commit }) => ({ tag, commit })) ?? null;
+        return { schemaVersion: OUTPUT_SCHEMA_VERSION, local: entries(local), remote: entries(remote) };
     }
 }
 
@@ -1,47 +1,129 @@
-import { exeCommand } from '@/services';
+import { commandOutput } from '@services/exe-service';
+import { GitContext } from '@services/git-service/GitContext';
+import { assertGitName } from '@utils/gitServiceUtils';
 
 class BranchService {
-    public static async listBranches(): Promise<string[]> {
-        return (await exeCommand('git branch --list'))
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository the branches belong to. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    public async listBranches(): Promise<string[]> {
+        return (await this._context.git(['branch', '--list'])).stdout
             .split('\n')
             .filter(b => b.length > 0)
             .map(b => b.trim());
     }
 
+    public async getCurrentBranch(): Promise<string> {
+        return (await this._context.git(['branch', '--show-current'])).stdout.trim();
+    }
+
+    public async deleteBranch(name: string): Promise<string> {
+        return commandOutput(
+            await this._context.git(['branch', '-d', '--end-of-options', assertGitName(name, 'branch')])
+        );
+    }
+
+    public async createBranch(name: string): Promise<string> {
+        return commandOutput(await this._context.git(['checkout', '-b', assertGitName(name, 'branch')]));
+    }
+
+    public async checkoutBranch(name: string): Promise<string> {
+        return commandOutput(await this._context.git(['checkout', assertGitName(name, 'branch')]));
+    }
+
+    public async mergeBranch(name: string): Promise<string> {
+        return commandOutput(await this._context.git(['merge', '--end-of-options', assertGitName(name, 'branch')]));
+    }
+
+    public async pushBranch(name: string, origin: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'push',
+                '--end-of-options',
+                assertGitName(origin, 'remote'),
+                assertGitName(name, 'branch')
+            ])
+        );
+    }
+
+    public async pullBranch(name: string, origin: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'pull',
+                '--end-of-options',
+                assertGitName(origin, 'remote'),
+                assertGitName(name, 'branch')
+            ])
+        );
+    }
+
+    public async fetchBranch(name: string, origin: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'fetch',
+                '--end-of-options',
+                assertGitName(origin, 'remote'),
+                assertGitName(name, 'branch')
+            ])
+        );
+    }
+
+    public async deleteRemoteBranch(name: string, origin: string): Promise<string> {
+        return commandOutput(
+            await this._context.git([
+                'push',
+                '--delete',
+                '--end-of-options',
+                assertGitName(origin, 'remote'),
+                assertGitName(name, 'branch')
+            ])
+        );
+    }
+
+    public static async listBranches(): Promise<string[]> {
+        return new BranchService().listBranches();
+    }
+
     public static async getCurrentBranch(): Promise<string> {
-        return (await exeCommand('git branch --show-current')).trim();
+        return new BranchService().getCurrentBranch();
     }
 
     public static async deleteBranch(name: string): Promise<string> {
-        return await exeCommand(`git branch -d ${name}`);
+        return new BranchService().deleteBranch(name);
     }
 
     public static async createBranch(name: string): Promise<string> {
-        return await exeCommand(`git checkout -b ${name}`);
+        return new BranchService().createBranch(name);
     }
 
     public static async checkoutBranch(name: string): Promise<string> {
-        return await exeCommand(`git checkout ${name}`);
+        return new BranchService().checkoutBranch(name);
     }
 
     public static async mergeBranch(name: string): Promise<string> {
-        return await exeCommand(`git merge ${name}`);
+        return new BranchService().mergeBranch(name);
     }
 
     public static async pushBranch(name: string, origin: string): Promise<string> {
-        return await exeCommand(`git push ${origin} ${name}`);
+        return new BranchService().pushBranch(name, origin);
     }
 
     public static async pullBranch(name: string, origin: string): Promise<string> {
-        return await exeCommand(`git pull ${origin} ${name}`);
+        return new BranchService().pullBranch(name, origin);
     }
 
     public static async fetchBranch(name: string, origin: string): Promise<string> {
-        return await exeCommand(`git fetch ${origin} ${name}`);
+        return new BranchService().fetchBranch(name, origin);
     }
 
     public static async deleteRemoteBranch(name: string, origin: string): Promise<string> {
-        return await exeCommand(`git push --delete ${origin} ${name}`);
+        return new BranchService().deleteRemoteBranch(name, origin);
     }
 }
 
@@ -0,0 +1,115 @@
+import { DiffParseError } from '@services/error-handler';
+import { DiffHunk } from '@services/git-service/diff/DiffHunk';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const HUNK = [
+    '@@ -1,8 +1,9 @@ intro',
+    ' one',
+    '-two',
+    '+2',
+    ' three',
+    ' four',
+    ' five',
+    '-six',
+    '+6',
+    '+six and a half',
+    ' seven',
+    ' eight'
+].join('\n');
+
+describe('DiffHunk', () => {
+    it('parses and writes a hunk', () => {
+        const hunk = DiffHunk.parse(HUNK);
+
+        assert.deepEqual([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines], [1, 8, 1, 9]);
+        assert.equal(hunk.section, 'intro');
+        assert.deepEqual(hunk.changes, [1, 2, 6, 7, 8]);
+        assert.equal(hunk.toString(), HUNK);
+    });
+
+    it('rejects a hunk whose lines do not match its header', () => {
+        assert.throws(() => DiffHunk.parse(HUNK.replace('-1,8', '-1,7')), DiffParseError);
+    });
+
+    it('splits a hunk at the context between its changes', () => {
+        const [first, second] = DiffHunk.parse(HUNK).split();
+
+        assert.equal(
+            first.toString(),
+            ['@@ -1,5 +1,5 @@ intro', ' one', '-two', '+2', ' three', ' four', ' five'].join('\n')
+        );
+        assert.equal(
+            second.toString(),
+            [
+                '@@ -3,6 +3,7 @@ intro',
+                ' three',
+                ' four',
+                ' five',
+                '-six',
+                '+6',
+                '+six and a half',
+                ' seven',
+                ' eight'
+            ].join('\n')
+        );
+    });
+
+    it('selects the changes of the hunk through its split hunks', () => {
+        const hunk = DiffHunk.parse(HUNK);
+        hunk.split()[1].select();
+
+        assert.deepEqual(
+            hunk.lines.map(line => line.selected),
+            [false, false, false, false, false, false, true, true, true, false, false]
+        );
+    });
+
+    it('picks the selected lines and leaves the others', () => {
+        const hunk = DiffHunk.parse(HUNK).select([2, 7]);
+
+        assert.equal(
+            hunk.pick()?.toString(),
+            [
+                '@@ -1,8 +1,10 @@ intro',
+                ' one',
+                ' two',
+                '+2',
+                ' three',
+                ' four',
+                ' five',
+                ' six',
+                '+6',
+                ' seven',
+                ' eight'
+            ].join('\n')
+        );
+        assert.equal(
+            hunk.remaining()?.toString(),
+            [
+                '@@ -1,10 +1,9 @@ intro',
+                ' one',
+                '-two',
+                ' 2',
+                ' three',
+                ' four',
+                ' five',
+                '-six',
+                ' 6',
+                '+six and a half',
+                ' seven',
+                ' eight'
+            ].join('\n')
+        );
+        assert.equal(DiffHunk.parse(HUNK).pick(), null);
+        assert.equal(DiffHunk.parse(HUNK).select().remaining(), null);
+    });
+
+    it('reverses a hunk', () => {
+        const reversed = DiffHunk.parse(HUNK).reverse();
+
+        assert.deepEqual([reversed.oldLines, reversed.newLines], [9, 8]);
+        assert.equal(reversed.toString().split('\n')[2], '+two');
+        assert.equal(reversed.reverse().toString(), HUNK);
+    });
+});
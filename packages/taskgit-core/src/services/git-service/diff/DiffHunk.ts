@@ -0,0 +1,327 @@
+import { TDiffHunkLine } from '@app-types';
+import { DiffParseError } from '@services/error-handler';
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+const LINE_TYPES: Record<string, TDiffHunkLine['type']> = { ' ': 'context', '+': 'added', '-': 'removed' };
+const LINE_PREFIXES: Record<TDiffHunkLine['type'], string> = { context: ' ', added: '+', removed: '-' };
+const REVERSED_TYPES: Record<TDiffHunkLine['type'], TDiffHunkLine['type']> = {
+    context: 'context',
+    added: 'removed',
+    removed: 'added'
+};
+
+/**
+ * Gets the first line a range covers. A range with no lines starts at the line before its position.
+ */
+const firstLine = (start: number, count: number) => (count > 0 ? start : start + 1);
+const rangeStart = (first: number, count: number) => (count > 0 ? first : first - 1);
+
+class DiffHunk {
+    public oldStart: number;
+    public newStart: number;
+    /**
+     * The text after the ranges of the header, usually the function the hunk belongs to.
+     */
+    public readonly section: string;
+    public readonly lines: TDiffHunkLine[];
+
+    /**
+     * Creates a hunk. The line counts of the header are computed from the lines.
+     *
+     * @param {object} conf
+     * @param {number} conf.oldStart - The start of the range in the old file.
+     * @param {number} conf.newStart - The start of the range in the new file.
+     * @param {string} [conf.section=''] - The text after the ranges of the header.
+     * @param {TDiffHunkLine[]} conf.lines - The lines of the hunk.
+     */
+    constructor({
+        oldStart,
+        newStart,
+        section = '',
+        lines
+    }: {
+        oldStart: number;
+        newStart: number;
+        section?: string;
+        lines: TDiffHunkLine[];
+    }) {
+        this.oldStart = oldStart;
+        this.newStart = newStart;
+        this.section = section;
+        this.lines = lines;
+    }
+
+    /**
+     * The number of lines of the hunk in the old file.
+     */
+    public get oldLines(): number {
+        return this.lines.filter(l => l.type !== 'added').length;
+    }
+
+    /**
+     * The number of lines of the hunk in the new file.
+     */
+    public get newLines(): number {
+        return this.lines.filter(l => l.type !== 'removed').length;
+    }
+
+    /**
+     * The `@@ -a,b +c,d @@` header of the hunk, with the line counts of its current lines.
+     */
+    public get header(): string {
+        const range = (start: number, count: number) => (count === 1 ? `${start}` : `${start},${count}`);
+        const header = `@@ -${range(this.oldStart, this.oldLines)} +${range(this.newStart, this.newLines)} @@`;
+        return this.section.length > 0 ? `${header} ${this.section}` : header;
+    }
+
+    /**
+     * The indexes in {@link DiffHunk#lines} of the added and removed lines.
+     */
+    public get changes(): number[] {
+        return this.lines.flatMap((l, i) => (l.type === 'context' ? [] : [i]));
+    }
+
+    /**
+     * Whether any change of the hunk is selected.
+     */
+    public get hasSelection(): boolean {
+        return this.lines.some(l => l.selected);
+    }
+
+    /**
+     * Whether every change of the hunk is selected.
+     */
+    public get isFullySelected(): boolean {
+        return this.lines.every(l => l.type === 'context' || l.selected);
+    }
+
+    /**
+     * Selects changes to include them in the accepted patch. Indexes of context lines are ignored.
+     *
+     * @param {number[]} [indexes] - The indexes of the lines to select. Defaults to every change.
+     * @returns {DiffHunk} The hunk, to chain calls.
+     */
+    public select(indexes: number[] = this.changes): this {
+        indexes.forEach(i => {
+            const line = this.lines[i];
+            if (line && line.type !== 'context') line.selected = true;
+        });
+        return this;
+    }
+
+    /**
+     * Unselects changes, leaving them in the ignored patch.
+     *
+     * @param {number[]} [indexes] - The indexes of the lines to unselect. Defaults to every change.
+     * @returns {DiffHunk} The hunk, to chain calls.
+     */
+    public unselect(indexes: number[] = this.changes): this {
+        indexes.forEach(i => {
+            if (this.lines[i]) this.lines[i].selected = false;
+        });
+        return this;
+    }
+
+    /**
+     * Splits the hunk into smaller hunks, one for every group of changes separated by context lines, as the `s`
+     * option of `git add -p` does. The context between two groups belongs to both hunks.
+     *
+     * The smaller hunks share their lines with this one, so selecting their changes selects the changes of this
+     * hunk. They are meant to be reviewed one by one, the patches are always built from the original hunks.
+     *
+     * @returns {DiffHunk[]} The smaller hunks, or this hunk if it cannot be split.
+     */
+    public split(): DiffHunk[] {
+        const groups: { start: number; end: number }[] = [];
+        this.lines.forEach((line, i) => {
+            if (line.type === 'context') return;
+            const last = groups[groups.length - 1];
+            if (last && last.end === i - 1) last.end = i;
+            else groups.push({ start: i, end: i });
+        });
+        if (groups.length <= 1) return [this];
+
+        const oldFirst = firstLine(this.oldStart, this.oldLines);
+        const newFirst = firstLine(this.newStart, this.newLines);
+
+        return groups.map((group, i) => {
+            const from = i === 0 ? 0 : groups[i - 1].end + 1;
+            const to = i === groups.length - 1 ? this.lines.length : groups[i + 1].start;
+            const before = this.lines.slice(0, from);
+            const hunk = new DiffHunk({
+                oldStart: 0,
+                newStart: 0,
+                section: this.section,
+                lines: this.lines.slice(from, to)
+            });
+
+            hunk.oldStart = rangeStart(oldFirst + before.filter(l => l.type !== 'added').length, hunk.oldLines);
+            hunk.newStart = rangeStart(newFirst + before.filter(l => l.type !== 'removed').length, hunk.newLines);
+            return hunk;
+        });
+    }
+
+    /**
+     * Builds the hunk that applies only the selected changes to the old file. The unselected removed lines
+     * become context and the unselected added lines are dropped. The new start must be recomputed with
+     * {@link DiffHunk.renumber} once the hunks of the patch are known.
+     *
+     * @returns {DiffHunk | null} The hunk, or null if no change is selected.
+     */
+    public pick(): DiffHunk | null {
+        if (!this.hasSelection) return null;
+
+        const lines = this.lines.flatMap((line): TDiffHunkLine[] => {
+            if (line.type === 'context' || line.selected) return [{ ...line }];
+            return line.type === 'removed' ? [{ ...line, type: 'context' }] : [];
+        });
+        return new DiffHunk({
+            oldStart: this.oldStart,
+            newStart: this.newStart,
+            section: this.section,
+            lines: DiffHunk._fixNewlineMarkers(lines)
+        });
+    }
+
+    /**
+     * Builds the hunk that applies the unselected changes to the old file once the selected changes have been
+     * applied. The selected added lines become context and the selected removed lines are dropped. The new start
+     * must be recomputed with {@link DiffHunk.renumber} once the hunks of the patch are known.
+     *
+     * @param {number} [offset=0] - The number of lines the selected changes of the previous hunks added, or
+     * removed if negative, before this hunk.
+     * @returns {DiffHunk | null} The hunk, or null if every change is selected.
+     */
+    public remaining(offset: number = 0): DiffHunk | null {
+        if (this.isFullySelected) return null;
+
+        const lines = this.lines.flatMap((line): TDiffHunkLine[] => {
+            if (line.type === 'context' || !line.selected) return [{ ...line }];
+            return line.type === 'added' ? [{ ...line, type: 'context', selected: false }] : [];
+        });
+        const hunk = new DiffHunk({
+            oldStart: 0,
+            newStart: this.newStart,
+            section: this.section,
+            lines: DiffHunk._fixNewlineMarkers(lines)
+        });
+        hunk.oldStart = rangeStart(firstLine(this.oldStart, this.oldLines) + offset, hunk.oldLines);
+        return hunk;
+    }
+
+    /**
+     * Builds the hunk that undoes this one: the added lines become removed lines and the other way round. The
+     * lines are copies, selected as in this hunk.
+     *
+     * @returns {DiffHunk} The reversed hunk.
+     */
+    public reverse(): DiffHunk {
+        return new DiffHunk({
+            oldStart: this.newStart,
+            newStart: this.oldStart,
+            section: this.section,
+            lines: this.lines.map(line => ({ ...line, type: REVERSED_TYPES[line.type] }))
+        });
+    }
+
+    /**
+     * Gets the text of the hunk, header included, without a trailing line break.
+     *
+     * @returns {string} The hunk.
+     */
+    public toString(): string {
+        return [
+            this.header,
+            ...this.lines.flatMap(l => {
+                const line = LINE_PREFIXES[l.type] + l.content;
+                return l.noNewlineAtEnd ? [line, NO_NEWLINE_MARKER] : [line];
+            })
+        ].join('\n');
+    }
+
+    /**
+     * Parses the text of a hunk, from its `@@` header to its last line.
+     *
+     * @param {string} text - The hunk.
+     * @returns {DiffHunk} The parsed hunk.
+     * @throws {DiffParseError} If the header is not valid or the lines do not match its line counts.
+     */
+    public static parse(text: string): DiffHunk {
+        const fail = (message: string): never => {
+            throw new DiffParseError(`Malformed diff hunk: ${message}`, text);
+        };
+
+        const [header, ...rows] = text.split('\n');
+        const match = HUNK_HEADER_PATTERN.exec(header);
+        if (!match) return fail(`'${header}' is not a valid hunk header.`);
+
+        const [, oldStart, oldCount = '1', newStart, newCount = '1', section] = match;
+        const lines: TDiffHunkLine[] = [];
+        let oldLines = 0;
+        let newLines = 0;
+
+        rows.forEach(row => {
+            if (row.startsWith('\\')) {
+                if (lines.length > 0) lines[lines.length - 1].noNewlineAtEnd = true;
+                return;
+            }
+            if (oldLines >= Number(oldCount) && newLines >= Number(newCount)) {
+                if (row.length > 0) fail(`the hunk has more lines than its header '${header}' counts.`);
+                return;
+            }
+
+            // Some tools strip the space of empty context lines
+            const type = row.length === 0 ? 'context' : LINE_TYPES[row.charAt(0)];
+            if (!type) fail(`'${row}' is not a diff line.`);
+            if (type !== 'added') oldLines++;
+            if (type !== 'removed') newLines++;
+            lines.push({ type, content: row.slice(1), noNewlineAtEnd: false, selected: false });
+        });
+
+        if (oldLines !== Number(oldCount) || newLines !== Number(newCount))
+            fail(`the hunk has fewer lines than its header '${header}' counts.`);
+
+        return new DiffHunk({ oldStart: Number(oldStart), newStart: Number(newStart), section, lines });
+    }
+
+    /**
+     * Recomputes the new start of the hunks of a patch from their old start and the lines added and removed by
+     * the previous hunks.
+     *
+     * @param {DiffHunk[]} hunks - The hunks of a patch, in order.
+     * @returns {DiffHunk[]} The same hunks.
+     */
+    public static renumber(hunks: DiffHunk[]): DiffHunk[] {
+        let offset = 0;
+        hunks.forEach(hunk => {
+            hunk.newStart = rangeStart(firstLine(hunk.oldStart, hunk.oldLines) + offset, hunk.newLines);
+            offset += hunk.newLines - hunk.oldLines;
+        });
+        return hunks;
+    }
+
+    /**
+     * Only the last line of each side of a hunk can lack the line break. When a selection leaves a line without
+     * it before other lines, the line gets its line break back on that side; a context line is turned into a
+     * removed and an added line for it.
+     */
+    private static _fixNewlineMarkers(lines: TDiffHunkLine[]): TDiffHunkLine[] {
+        const lastOld = lines.findLastIndex(l => l.type !== 'added');
+        const lastNew = lines.findLastIndex(l => l.type !== 'removed');
+
+        return lines.flatMap((line, i): TDiffHunkLine[] => {
+            if (!line.noNewlineAtEnd) return [line];
+            const oldValid = line.type === 'added' || i === lastOld;
+            const newValid = line.type === 'removed' || i === lastNew;
+            if (oldValid && newValid) return [line];
+            if (line.type !== 'context') return [{ ...line, noNewlineAtEnd: false }];
+            return [
+                { ...line, type: 'removed', noNewlineAtEnd: oldValid },
+                { ...line, type: 'added', noNewlineAtEnd: newValid }
+            ];
+        });
+    }
+}
+
+export { DiffHunk };
@@ -0,0 +1,290 @@
+import { DiffParseError } from '@services/error-handler';
+import { DiffOutputFile } from '@services/git-service/diff/DiffOutputFile';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const lines = (...rows: string[]) => `${rows.join('\n')}\n`;
+
+const ADDED = lines(
+    'diff --git a/added.txt b/added.txt',
+    'new file mode 100644',
+    'index 0000000..3e75765',
+    '--- /dev/null',
+    '+++ b/added.txt',
+    '@@ -0,0 +1 @@',
+    '+new'
+);
+const DELETED = lines(
+    'diff --git a/gone.txt b/gone.txt',
+    'deleted file mode 100644',
+    'index b023018..0000000',
+    '--- a/gone.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-bye'
+);
+const BINARY = lines(
+    'diff --git a/image.bin b/image.bin',
+    'index 8352675d67aed6625ece79af41c27fdb4ee2e867..1592e5c60f1a460928916dc5681fee1a9bd10868 100644',
+    'GIT binary patch',
+    'literal 3',
+    'KcmZQzWCj2L2ml2D',
+    '',
+    'literal 3',
+    'KcmZQzWC8#H2LJ>B',
+    ''
+);
+const RENAMED = lines(
+    'diff --git a/moved.txt b/renamed.txt',
+    'similarity index 90%',
+    'rename from moved.txt',
+    'rename to renamed.txt',
+    'index b00a0f1..50e7fd4 100644',
+    '--- a/moved.txt',
+    '+++ b/renamed.txt',
+    '@@ -1,5 +1,5 @@',
+    ' one',
+    '-two',
+    '+2',
+    ' three',
+    ' four',
+    ' five'
+);
+const MODE = lines('diff --git a/run.sh b/run.sh', 'old mode 100644', 'new mode 100755');
+const MODIFIED = lines(
+    'diff --git a/f.txt b/f.txt',
+    'index b00a0f1..087386f 100644',
+    '--- a/f.txt',
+    '+++ b/f.txt',
+    '@@ -1,8 +1,9 @@',
+    ' one',
+    '-two',
+    '+2',
+    ' three',
+    ' four',
+    ' five',
+    '-six',
+    '+6',
+    '+six and a half',
+    ' seven',
+    ' eight'
+);
+
+describe('DiffOutputFile', () => {
+    it('parses the headers of new, deleted, renamed, mode change and binary files', () => {
+        const summary = (text: string) => {
+            const { status, oldPath, newPath, oldMode, newMode, similarity, isBinary, hunks, hasHeaderChange } =
+                DiffOutputFile.parse(text);
+            return {
+                status,
+                oldPath,
+                newPath,
+                oldMode,
+                newMode,
+                similarity,
+                isBinary,
+                hunks: hunks.length,
+                hasHeaderChange
+            };
+        };
+        const file = { similarity: null, isBinary: false, hunks: 1, hasHeaderChange: false };
+
+        assert.deepEqual(summary(ADDED), {
+            ...file,
+            status: 'added',
+            oldPath: 'added.txt',
+            newPath: 'added.txt',
+            oldMode: null,
+            newMode: '100644'
+        });
+        assert.deepEqual(summary(DELETED), {
+            ...file,
+            status: 'deleted',
+            oldPath: 'gone.txt',
+            newPath: 'gone.txt',
+            oldMode: '100644',
+            newMode: null
+        });
+        assert.deepEqual(summary(RENAMED), {
+            ...file,
+            status: 'renamed',
+            oldPath: 'moved.txt',
+            newPath: 'renamed.txt',
+            oldMode: '100644',
+            newMode: '100644',
+            similarity: 90,
+            hasHeaderChange: true
+        });
+        assert.deepEqual(summary(MODE), {
+            ...file,
+            status: 'modified',
+            oldPath: 'run.sh',
+            newPath: 'run.sh',
+            oldMode: '100644',
+            newMode: '100755',
+            hunks: 0,
+            hasHeaderChange: true
+        });
+        assert.deepEqual(summary(BINARY), {
+            ...file,
+            status: 'modified',
+            oldPath: 'image.bin',
+            newPath: 'image.bin',
+            oldMode: '100644',
+            newMode: '100644',
+            isBinary: true,
+            hunks: 0,
+            hasHeaderChange: true
+        });
+    });
+
+    it('rejects a section that is not a file of a diff', () => {
+        assert.throws(() => DiffOutputFile.parse('index b00a0f1..087386f\n'), DiffParseError);
+    });
+
+    it('regenerates the whole diff of every file', () => {
+        [ADDED, DELETED, BINARY, RENAMED, MODE, MODIFIED].forEach(text =>
+            assert.equal(DiffOutputFile.parse(text).getTotalDiffPatch(), text)
+        );
+    });
+
+    it('builds the patches of a split hunk', () => {
+        const file = DiffOutputFile.parse(MODIFIED);
+        file.hunks[0].split()[1].select();
+
+        assert.equal(
+            file.getAcceptedDiffPatch(),
+            lines(
+                'diff --git a/f.txt b/f.txt',
+                '--- a/f.txt',
+                '+++ b/f.txt',
+                '@@ -1,8 +1,9 @@',
+                ' one',
+                ' two',
+                ' three',
+                ' four',
+                ' five',
+                '-six',
+                '+6',
+                '+six and a half',
+                ' seven',
+                ' eight'
+            )
+        );
+        assert.equal(
+            file.getIgnoredDiffPatch(),
+            lines(
+                'diff --git a/f.txt b/f.txt',
+                '--- a/f.txt',
+                '+++ b/f.txt',
+                '@@ -1,9 +1,9 @@',
+                ' one',
+                '-two',
+                '+2',
+                ' three',
+                ' four',
+                ' five',
+                ' 6',
+                ' six and a half',
+                ' seven',
+                ' eight'
+            )
+        );
+    });
+
+    it('builds the patches of a selection of lines', () => {
+        const file = DiffOutputFile.parse(MODIFIED);
+        file.hunks[0].select([2, 7]);
+
+        assert.equal(
+            file.getAcceptedDiffPatch(),
+            lines(
+                'diff --git a/f.txt b/f.txt',
+                '--- a/f.txt',
+                '+++ b/f.txt',
+                '@@ -1,8 +1,10 @@',
+                ' one',
+                ' two',
+                '+2',
+                ' three',
+                ' four',
+                ' five',
+                ' six',
+                '+6',
+                ' seven',
+                ' eight'
+            )
+        );
+        assert.equal(
+            file.getIgnoredDiffPatch(),
+            lines(
+                'diff --git a/f.txt b/f.txt',
+                '--- a/f.txt',
+                '+++ b/f.txt',
+                '@@ -1,10 +1,9 @@',
+                ' one',
+                '-two',
+                ' 2',
+                ' three',
+                ' four',
+                ' five',
+                '-six',
+                ' 6',
+                '+six and a half',
+                ' seven',
+                ' eight'
+            )
+        );
+    });
+
+    it('writes the object names only in the patch of the whole change', () => {
+        const file = DiffOutputFile.parse(MODIFIED);
+        file.hunks[0].select();
+
+        assert.equal(file.getAcceptedDiffPatch(), MODIFIED);
+        assert.equal(file.getIgnoredDiffPatch(), null);
+    });
+
+    it('builds the patches of a rename and of its content apart', () => {
+        const rename = DiffOutputFile.parse(RENAMED);
+        rename.headerSelected = true;
+        const header = lines(
+            'diff --git a/moved.txt b/renamed.txt',
+            'similarity index 90%',
+            'rename from moved.txt',
+            'rename to renamed.txt'
+        );
+        const hunk = ['@@ -1,5 +1,5 @@', ' one', '-two', '+2', ' three', ' four', ' five'];
+
+        assert.equal(rename.getAcceptedDiffPatch(), header);
+        assert.equal(
+            rename.getIgnoredDiffPatch(),
+            lines('diff --git a/renamed.txt b/renamed.txt', '--- a/renamed.txt', '+++ b/renamed.txt', ...hunk)
+        );
+
+        const content = DiffOutputFile.parse(RENAMED);
+        content.hunks[0].select();
+
+        assert.equal(
+            content.getAcceptedDiffPatch(),
+            lines('diff --git a/moved.txt b/moved.txt', '--- a/moved.txt', '+++ b/moved.txt', ...hunk)
+        );
+        assert.equal(content.getIgnoredDiffPatch(), header);
+    });
+
+    it('builds the patches of the changes of the file itself', () => {
+        const mode = DiffOutputFile.parse(MODE);
+        mode.headerSelected = true;
+        assert.equal(mode.getAcceptedDiffPatch(), MODE);
+        assert.equal(mode.getIgnoredDiffPatch(), null);
+
+        const binary = DiffOutputFile.parse(BINARY);
+        assert.equal(binary.getAcceptedDiffPatch(), null);
+        assert.equal(binary.getIgnoredDiffPatch(), BINARY);
+
+        const deleted = DiffOutputFile.parse(DELETED);
+        deleted.hunks[0].select();
+        assert.equal(deleted.getAcceptedDiffPatch(), DELETED);
+        assert.equal(deleted.getIgnoredDiffPatch(), null);
+    });
+});
@@ -1,14 +1,137 @@
-import { TDiffOutputFileConf } from '@app-types';
+import { TDiffFileStatus, TDiffOutputFileConf } from '@app-types';
+import { AppError, DiffParseError, ErrorHandler } from '@services/error-handler';
+import { DiffHunk } from '@services/git-service/diff/DiffHunk';
+
+const NULL_PATH = '/dev/null';
+const BINARY_PATCH_TITLE = 'GIT binary patch';
+const DEFAULT_MODE = '100644';
+const HEADER_LINE_PATTERN =
+    /^(old mode|new mode|deleted file mode|new file mode|rename from|rename to|copy from|copy to|similarity index|index|---|\+\+\+) (.*)$/;
+const QUOTE_ESCAPES: Record<string, string> = {
+    a: '\x07',
+    b: '\b',
+    t: '\t',
+    n: '\n',
+    v: '\v',
+    f: '\f',
+    r: '\r',
+    '"': '"',
+    '\\': '\\'
+};
+const REVERSED_STATUS: Partial<Record<TDiffFileStatus, TDiffFileStatus>> = { added: 'deleted', deleted: 'added' };
+
+/**
+ * One side of a file patch: where the file is and its mode, or that it does not exist.
+ */
+type TFileSide = { path: string; exists: boolean; mode: string | null };
+
+const sameSide = (a: TFileSide, b: TFileSide) => a.exists === b.exists && a.path === b.path && a.mode === b.mode;
+
+/**
+ * Reads a path as git writes it: as is, or between double quotes with C-style escapes when it has unusual
+ * characters. Octal escapes are bytes of the UTF-8 encoding.
+ */
+const unquote = (path: string): string => {
+    if (path.length < 2 || !path.startsWith('"') || !path.endsWith('"')) return path;
+
+    const bytes: number[] = [];
+    const body = path.slice(1, -1);
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] !== '\\') {
+            bytes.push(...Buffer.from(body[i]));
+            continue;
+        }
+        const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+        if (octal) {
+            bytes.push(parseInt(octal[0], 8));
+            i += 3;
+        } else {
+            bytes.push(...Buffer.from(QUOTE_ESCAPES[body[i + 1]] ?? body[i + 1]));
+            i++;
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+};
+
+/**
+ * Writes a path between double quotes with C-style escapes when it has characters git would quote.
+ */
+const quote = (path: string): string => {
+    if (!/["\\\x00-\x1f\x7f]/.test(path)) return path;
+
+    const escapes = Object.fromEntries(Object.entries(QUOTE_ESCAPES).map(([letter, char]) => [char, `\\${letter}`]));
+    const octal = (char: string) => `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`;
+    const body = [...path].map(char => escapes[char] ?? (/[\x00-\x1f\x7f]/.test(char) ? octal(char) : char));
+    return `"${body.join('')}"`;
+};
+
+const stripPrefix = (path: string, prefix: string) => (path.startsWith(prefix) ? path.slice(prefix.length) : path);
+
+/**
+ * Reads the two paths of a `diff --git a/<old> b/<new>` line. Unquoted paths with spaces are ambiguous, so they are
+ * split in half when both are the same, as git does; the `---`, `+++`, rename and copy lines tell them otherwise.
+ */
+const parseGitLinePaths = (paths: string): [string, string] => {
+    let old: string;
+    let current: string;
+
+    if (paths.startsWith('"')) {
+        const end = /^"(?:[^"\\]|\\.)*"/.exec(paths)?.[0] ?? paths;
+        old = unquote(end);
+        current = unquote(paths.slice(end.length + 1));
+    } else if (paths.endsWith('"') && paths.includes(' "')) {
+        const start = paths.lastIndexOf(' "');
+        old = paths.slice(0, start);
+        current = unquote(paths.slice(start + 1));
+    } else {
+        const half = (paths.length - 1) / 2;
+        const separator = Number.isInteger(half) && paths.slice(2, half) === paths.slice(half + 3) ? half : -1;
+        const split = separator !== -1 ? separator : paths.indexOf(' b/');
+        old = paths.slice(0, split);
+        current = paths.slice(split + 1);
+    }
+
+    return [stripPrefix(old, 'a/'), stripPrefix(current, 'b/')];
+};
 
 class DiffOutputFile {
+    /**
+     * The paths of the `diff --git` line, as git wrote them.
+     */
     public file: string;
+    /**
+     * The path of the file after the change, the same as {@link DiffOutputFile#newPath}.
+     */
     public fileName: string;
+    /**
+     * The `index` line, or an empty string if the diff has none.
+     */
     public index: string;
+    /**
+     * The `---` line, or an empty string if the diff has none.
+     */
     public aFile: string;
+    /**
+     * The `+++` line, or an empty string if the diff has none.
+     */
     public bFile: string;
-    public hunks: string[];
-    public acceptedHunks: string[];
-    public ignoredHunks: string[];
+    public status: TDiffFileStatus;
+    public oldPath: string;
+    public newPath: string;
+    public oldMode: string | null;
+    public newMode: string | null;
+    public similarity: number | null;
+    public isBinary: boolean;
+    /**
+     * The `GIT binary patch` section of a binary file, or null if the diff was not run with `--binary`. The content
+     * of a binary file cannot be patched without it.
+     */
+    public binaryPatch: string | null;
+    public hunks: DiffHunk[];
+    /**
+     * Whether the change of the file itself is selected, see {@link DiffOutputFile#hasHeaderChange}.
+     */
+    public headerSelected: boolean = false;
 
     /**
      * Constructor for DiffOutputFile.
@@ -16,12 +139,14 @@ class DiffOutputFile {
      * @param {TDiffOutputFileConf} conf - Configuration object for the DiffOutputFile.
      *
      * The configuration object should contain the following properties:
-     * - file: The file path of the file.
-     * - fileName: The name of the file.
-     * - index: The index of the file.
-     * - aFile: The "a/" file name.
-     * - bFile: The "b/" file name.
-     * - hunks: An array of hunk strings.
+     * - file: The paths of the `diff --git` line.
+     * - fileName: The path of the file after the change.
+     * - index: The `index` line, or an empty string.
+     * - aFile: The `---` line, or an empty string.
+     * - bFile: The `+++` line, or an empty string.
+     * - status, oldPath, newPath, oldMode, newMode, similarity, isBinary: The extended header of the file.
+     * - hunks: An array of hunk strings, parsed with {@link DiffHunk.parse}.
+     * - binaryPatch: The `GIT binary patch` section, or null.
      */
     constructor(conf: TDiffOutputFileConf) {
         this.file = conf.file;
@@ -29,9 +154,86 @@ class DiffOutputFile {
         this.index = conf.index;
         this.aFile = conf.aFile;
         this.bFile = conf.bFile;
-        this.hunks = conf.hunks;
-        this.acceptedHunks = [];
-        this.ignoredHunks = [];
+        this.status = conf.status;
+        this.oldPath = conf.oldPath;
+        this.newPath = conf.newPath;
+        this.oldMode = conf.oldMode;
+        this.newMode = conf.newMode;
+        this.similarity = conf.similarity;
+        this.isBinary = conf.isBinary;
+        this.binaryPatch = conf.binaryPatch;
+        this.hunks = conf.hunks.map(hunk => DiffHunk.parse(hunk));
+    }
+
+    /**
+     * Whether the file changes beyond its hunks, so that {@link DiffOutputFile#headerSelected} decides if the change
+     * is applied: a rename, copy or mode change, a binary file, or a file created or deleted without content.
+     *
+     * A file with content is created when any of its changes is selected, and deleted when all of them are.
+     */
+    public get hasHeaderChange(): boolean {
+        if (this.status === 'added' || this.status === 'deleted') return this.hunks.length === 0;
+        return this.status !== 'modified' || this.isBinary || this.oldMode !== this.newMode;
+    }
+
+    /**
+     * The hunks with the selected changes, ready to be applied to the old file.
+     */
+    public get acceptedHunks(): DiffHunk[] {
+        return DiffHunk.renumber(this.hunks.map(hunk => hunk.pick()).filter(hunk => hunk !== null));
+    }
+
+    /**
+     * The hunks with the unselected changes, ready to be applied to the old file once the accepted hunks have
+     * been applied.
+     */
+    public get ignoredHunks(): DiffHunk[] {
+        const hunks: DiffHunk[] = [];
+        let offset = 0;
+
+        this.hunks.forEach(hunk => {
+            const remaining = hunk.remaining(offset);
+            if (remaining) hunks.push(remaining);
+            const picked = hunk.pick();
+            if (picked) offset += picked.newLines - picked.oldLines;
+        });
+
+        return DiffHunk.renumber(hunks);
+    }
+
+    /**
+     * Builds the diff that undoes this one, with its hunks reversed with {@link DiffHunk#reverse}. Applying
+     * the selected changes of the reversed diff removes them from the new file.
+     *
+     * @returns {DiffOutputFile} The reversed diff.
+     * @throws {AppError} If the file is copied, since the diff does not hold the content of the copy to remove it.
+     */
+    public reverse(): DiffOutputFile {
+        if (this.status === 'copied') {
+            const error = new AppError(`The copy of '${this.oldPath}' to '${this.newPath}' cannot be reversed.`);
+            ErrorHandler.throw(error);
+            throw error;
+        }
+
+        const reversed = new DiffOutputFile({
+            file: `${quote(`a/${this.newPath}`)} ${quote(`b/${this.oldPath}`)}`,
+            fileName: this.oldPath,
+            index: this.index.replace(/^index (\w+)\.\.(\w+)/, 'index $2..$1'),
+            aFile: this.bFile && `--- ${this.bFile.slice(4).replace(/^("?)b\//, '$1a/')}`,
+            bFile: this.aFile && `+++ ${this.aFile.slice(4).replace(/^("?)a\//, '$1b/')}`,
+            status: REVERSED_STATUS[this.status] ?? this.status,
+            oldPath: this.newPath,
+            newPath: this.oldPath,
+            oldMode: this.newMode,
+            newMode: this.oldMode,
+            similarity: this.similarity,
+            isBinary: this.isBinary,
+            binaryPatch: this.binaryPatch && DiffOutputFile._reverseBinaryPatch(this.binaryPatch),
+            hunks: []
+        });
+        reversed.hunks = this.hunks.map(hunk => hunk.reverse());
+        reversed.headerSelected = this.headerSelected;
+        return reversed;
     }
 
     /**
@@ -40,47 +242,190 @@ class DiffOutputFile {
      * @returns {string} A string representing the diff patch for the file.
      */
     public getTotalDiffPatch(): string {
-        let patch = `diff --git ${this.file}`;
-        patch += `\n${this.index}`;
-        patch += `\n${this.aFile}`;
-        patch += `\n${this.bFile}`;
-        patch += `\n${this.hunks.join('\n')}`;
-        if (!patch.endsWith('\n')) patch += '\n';
-        return patch;
+        return this._buildPatch(this._oldSide, this._newSide, this.hunks, this.isBinary, true);
     }
 
     /**
-     * Generates a diff patch string for the accepted hunks of a file.
+     * Generates a diff patch string for the selected changes of the file, with the headers of the hunks
+     * recomputed. The change of the file itself is included when it is accepted, see
+     * {@link DiffOutputFile#hasHeaderChange}.
      *
      * @returns {string | null} A string representing the diff patch for the accepted hunks
-     * of the file, or null if there are no accepted hunks.
+     * of the file, or null if nothing is accepted.
      */
     public getAcceptedDiffPatch(): string | null {
-        if (this.acceptedHunks.length === 0) return null;
-        let patch = `diff --git ${this.file}`;
-        patch += `\n${this.index}`;
-        patch += `\n${this.aFile}`;
-        patch += `\n${this.bFile}`;
-        patch += `\n${this.acceptedHunks.join('\n')}`;
-        if (!patch.endsWith('\n')) patch += '\n';
-        return patch;
+        const hunks = this.acceptedHunks;
+        const to = this._acceptedSide;
+        const binary = this.isBinary && this._headerAccepted;
+        if (hunks.length === 0 && !binary && sameSide(this._oldSide, to)) return null;
+
+        const complete = sameSide(to, this._newSide) && this.hunks.every(hunk => hunk.isFullySelected);
+        return this._buildPatch(this._oldSide, to, hunks, binary, complete);
     }
 
     /**
-     * Generates a diff patch string for the ignored hunks of a file.
+     * Generates a diff patch string for the unselected changes of the file, to apply on top of the accepted
+     * patch, with the headers of the hunks recomputed.
      *
      * @returns {string | null} A string representing the diff patch for the ignored hunks
-     * of the file, or null if there are no ignored hunks.
+     * of the file, or null if nothing is ignored.
      */
     public getIgnoredDiffPatch(): string | null {
-        if (this.ignoredHunks.length === 0) return null;
-        let patch = `diff --git ${this.file}`;
-        patch += `\n${this.index}`;
-        patch += `\n${this.aFile}`;
-        patch += `\n${this.bFile}`;
-        patch += `\n${this.ignoredHunks.join('\n')}`;
-        if (!patch.endsWith('\n')) patch += '\n';
-        return patch;
+        const hunks = this.ignoredHunks;
+        const from = this._acceptedSide;
+        const binary = this.isBinary && !this._headerAccepted;
+        if (hunks.length === 0 && !binary && sameSide(from, this._newSide)) return null;
+
+        const complete = sameSide(from, this._oldSide) && !this.hunks.some(hunk => hunk.hasSelection);
+        return this._buildPatch(from, this._newSide, hunks, binary, complete);
+    }
+
+    /**
+     * Parses the section of a file in the output of `git diff`, from its `diff --git` line to its last hunk or
+     * its binary patch.
+     *
+     * @param {string} text - The section of the file.
+     * @returns {DiffOutputFile} The parsed file.
+     * @throws {DiffParseError} If the section does not start with a `diff --git` line or a hunk is not valid.
+     */
+    public static parse(text: string): DiffOutputFile {
+        const [first, ...rows] = text.split('\n');
+        if (!first.startsWith('diff --git '))
+            throw new DiffParseError(`Malformed diff: '${first}' is not a 'diff --git' line.`, text);
+
+        const file = first.slice('diff --git '.length);
+        const [oldPath, newPath] = parseGitLinePaths(file);
+        const conf: TDiffOutputFileConf = {
+            file,
+            fileName: newPath,
+            index: '',
+            aFile: '',
+            bFile: '',
+            status: 'modified',
+            oldPath,
+            newPath,
+            oldMode: null,
+            newMode: null,
+            similarity: null,
+            isBinary: false,
+            hunks: [],
+            binaryPatch: null
+        };
+
+        let body = rows.findIndex(row => row.startsWith('@@') || row === BINARY_PATCH_TITLE);
+        if (body === -1) body = rows.length;
+
+        rows.slice(0, body).forEach(row => {
+            const [, key, value = ''] = HEADER_LINE_PATTERN.exec(row) ?? [];
+            // Git ends the names with a tab when they have spaces
+            const path = unquote(value.replace(/\t$/, ''));
+
+            if (key === 'old mode') conf.oldMode = value;
+            else if (key === 'new mode') conf.newMode = value;
+            else if (key === 'deleted file mode') [conf.status, conf.oldMode] = ['deleted', value];
+            else if (key === 'new file mode') [conf.status, conf.newMode] = ['added', value];
+            else if (key === 'rename from' || key === 'copy from') conf.oldPath = path;
+            else if (key === 'rename to' || key === 'copy to') {
+                conf.newPath = path;
+                conf.status = key === 'rename to' ? 'renamed' : 'copied';
+            } else if (key === 'similarity index') conf.similarity = parseInt(value, 10);
+            else if (key === 'index') {
+                conf.index = row;
+                const mode = / (\d{6})$/.exec(value)?.[1] ?? null;
+                conf.oldMode ??= mode;
+                conf.newMode ??= mode;
+            } else if (key === '---') {
+                conf.aFile = row;
+                if (path !== NULL_PATH) conf.oldPath = stripPrefix(path, 'a/');
+            } else if (key === '+++') {
+                conf.bFile = row;
+                if (path !== NULL_PATH) conf.newPath = stripPrefix(path, 'b/');
+            } else if (row.startsWith('Binary files ')) conf.isBinary = true;
+        });
+
+        if (conf.status === 'added') conf.oldMode = null;
+        if (conf.status === 'deleted') conf.newMode = null;
+        conf.fileName = conf.newPath;
+
+        if (rows[body] === BINARY_PATCH_TITLE) {
+            conf.isBinary = true;
+            conf.binaryPatch = rows.slice(body).join('\n').trimEnd();
+        } else {
+            rows.slice(body).forEach(row => {
+                if (row.startsWith('@@')) conf.hunks.push(row);
+                else conf.hunks[conf.hunks.length - 1] += `\n${row}`;
+            });
+        }
+
+        return new DiffOutputFile(conf);
+    }
+
+    private get _oldSide(): TFileSide {
+        return { path: this.oldPath, exists: this.status !== 'added', mode: this.oldMode };
+    }
+
+    private get _newSide(): TFileSide {
+        return { path: this.newPath, exists: this.status !== 'deleted', mode: this.newMode };
+    }
+
+    /**
+     * Whether the accepted patch changes the file itself. A file with content is created when any change is
+     * selected, as is a copy, and deleted when all of them are.
+     */
+    private get _headerAccepted(): boolean {
+        const selected = this.hunks.some(hunk => hunk.hasSelection);
+        if (this.status === 'added' || this.status === 'copied') return this.headerSelected || selected;
+        if (this.status === 'deleted' && this.hunks.length > 0) return this.hunks.every(hunk => hunk.isFullySelected);
+        return this.headerSelected;
+    }
+
+    /**
+     * The file once the accepted patch is applied.
+     */
+    private get _acceptedSide(): TFileSide {
+        return this._headerAccepted ? this._newSide : this._oldSide;
+    }
+
+    /**
+     * Builds the patch of the file from one side to the other. `complete` tells whether the patch holds the whole
+     * change of the file, every hunk and the change of the file itself, since the object names of the `index`
+     * line only hold for it and `git apply` checks them against the blobs it applies to.
+     */
+    private _buildPatch(from: TFileSide, to: TFileSide, hunks: DiffHunk[], binary: boolean, complete: boolean): string {
+        const aPath = from.exists ? from.path : to.path;
+        const bPath = to.exists ? to.path : from.path;
+        const lines = [`diff --git ${quote(`a/${aPath}`)} ${quote(`b/${bPath}`)}`];
+
+        if (!from.exists) lines.push(`new file mode ${to.mode ?? DEFAULT_MODE}`);
+        else if (!to.exists) lines.push(`deleted file mode ${from.mode ?? DEFAULT_MODE}`);
+        else if (from.mode && to.mode && from.mode !== to.mode)
+            lines.push(`old mode ${from.mode}`, `new mode ${to.mode}`);
+
+        if (from.exists && to.exists && from.path !== to.path) {
+            const kind = this.status === 'copied' ? 'copy' : 'rename';
+            if (this.similarity !== null) lines.push(`similarity index ${this.similarity}%`);
+            lines.push(`${kind} from ${quote(from.path)}`, `${kind} to ${quote(to.path)}`);
+        }
+
+        // Binary patches need the object names, which are only written for the whole change
+        if (this.index && complete) lines.push(this.index);
+
+        if (hunks.length > 0) {
+            lines.push(`--- ${from.exists ? quote(`a/${from.path}`) : NULL_PATH}`);
+            lines.push(`+++ ${to.exists ? quote(`b/${to.path}`) : NULL_PATH}`);
+            lines.push(...hunks.map(hunk => hunk.toString()));
+        }
+        if (binary && this.binaryPatch) lines.push(this.binaryPatch, '');
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * A binary patch holds the forward change and then the reverse one, so reversing it swaps them.
+     */
+    private static _reverseBinaryPatch(patch: string): string {
+        const [forward, backward] = patch.slice(BINARY_PATCH_TITLE.length + 1).split('\n\n');
+        return backward ? `${BINARY_PATCH_TITLE}\n${backward}\n\n${forward}` : patch;
     }
 }
 
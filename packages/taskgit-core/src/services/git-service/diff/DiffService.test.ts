@@ -0,0 +1,27 @@
+import { AppError } from '@services/error-handler';
+import { DiffService } from '@services/git-service/diff/DiffService';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import { GitContext } from '@services/git-service/GitContext';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('DiffService', () => {
+    it('passes the range of the diff after the options', async () => {
+        const fake = new FakeGitExecutor()
+            .on(['diff', '--end-of-options', 'main...feature', '--', 'src'], 'range\n')
+            .on(['diff', '--cached', '--merge-base', '--end-of-options', 'main'], 'merge base\n');
+        const diff = new DiffService(new GitContext('/repo', fake));
+
+        assert.equal(await diff.diff({ from: 'main', to: 'feature', mergeBase: true, paths: ['src'] }), 'range\n');
+        assert.equal(await diff.diff({ from: 'main', cached: true, mergeBase: true }), 'merge base\n');
+    });
+
+    it('rejects the commits git would read as options', async () => {
+        const fake = new FakeGitExecutor();
+        const diff = new DiffService(new GitContext('/repo', fake));
+
+        await assert.rejects(diff.diff({ from: '--output=/tmp/diff' }), AppError);
+        await assert.rejects(diff.diff({ from: 'main', to: '--output=/tmp/diff' }), AppError);
+        assert.deepEqual(fake.calls, []);
+    });
+});
@@ -1,35 +1,59 @@
-import { GitDiffOptions } from '@app-types';
-import { exeCommand } from '@services/exe-service';
+import { GitDiffOptions, TDiffNumstat, TDiffRawEntry, TDiffShortstat, TWordDiffFile } from '@app-types';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { commandError } from '@services/exe-service';
 import { DiffOutputFile } from '@services/git-service/diff/DiffOutputFile';
+import { GitContext } from '@services/git-service/GitContext';
+import { assertGitName, parseNumstat, parseRawDiff, parseShortstat, parseWordDiff } from '@utils/gitServiceUtils';
+
+/**
+ * Turn off the settings that change the format of the diff, so it can be parsed.
+ */
+const PARSE_ARGS = ['--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+/**
+ * The options that choose the format of the output, replaced by the structured methods.
+ */
+const FORMAT_OPTIONS: (keyof GitDiffOptions)[] = ['raw', 'patch', 'stat', 'numstat', 'shortstat', 'binary', 'color'];
 
 class DiffService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository to diff. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
     /**
      * Execute the git diff command with the provided options.
      * @param options Options for the git diff command.
      * @returns The output of the git diff command.
      */
-    public static async diff(options: GitDiffOptions): Promise<string> {
-        const command = this._buildDiffCommand(options);
+    public async diff(options: GitDiffOptions): Promise<string> {
+        const args = DiffService._buildDiffArgs(options);
 
-        return exeCommand(command);
+        return (await this._context.git(args)).stdout;
     }
 
     /**
-     * Build the git diff command based on the provided options.
+     * Build the git diff arguments based on the provided options.
      * @param options Options for the git diff command.
-     * @returns The built git diff command.
-     */
-    private static _buildDiffCommand(options: GitDiffOptions): string {
-        let command = 'git diff';
-
-        // Add branch(es) or file
-        if (options.branch1 && options.branch2) {
-            command += ` ${options.branch1}..${options.branch2}`;
-        } else if (options.branch1 && options.branch2 && options.commit1 && options.commit2) {
-            command += ` ${options.branch1}...${options.branch2}`;
-        } else if (options.file) {
-            command += ` -- ${options.file}`;
-        }
+     * @returns The arguments of the git diff command.
+     * @throws {AppError} If the range is not valid, e.g. two commits with `cached`.
+     */
+    private static _buildDiffArgs(options: GitDiffOptions): string[] {
+        const args = ['diff'];
+        const from = options.from ?? options.commit1 ?? options.branch1;
+        const to = options.to ?? options.commit2 ?? options.branch2;
+
+        if (to && !from) ErrorHandler.throw(new AppError('The diff range needs a commit to start from.'));
+        if (to && options.cached)
+            ErrorHandler.throw(new AppError('The index can only be compared with one commit, not with a range.'));
+        if (options.mergeBase && !from)
+            ErrorHandler.throw(new AppError('The merge base needs a commit to compare with.'));
+
+        if (options.cached) args.push('--cached');
+        if (options.color !== undefined) args.push(options.color ? '--color=always' : '--no-color');
 
         // Add ignore whitespace options
         const ignoreSpaceOptions = [
@@ -44,7 +68,7 @@ class DiffService {
 
         ignoreSpaceOptions.forEach(option => {
             if (option.option) {
-                command += ` ${option.flag}`;
+                args.push(option.flag);
             }
         });
 
@@ -57,16 +81,32 @@ class DiffService {
             { option: options.patch, flag: '--patch' },
             { option: options.stat, flag: '--stat' },
             { option: options.numstat, flag: '--numstat' },
-            { option: options.shortstat, flag: '--shortstat' }
+            { option: options.shortstat, flag: '--shortstat' },
+            { option: options.binary, flag: '--binary' }
         ];
 
         formatOptions.forEach(option => {
             if (option.option) {
-                command += ` ${option.flag}`;
+                args.push(option.flag);
             }
         });
 
-        return command;
+        // Add the range: a commit against the working tree or the index, or two commits. It follows
+        // `--end-of-options`, so a commit is never read as an option
+        if (from) {
+            const base = assertGitName(from, 'commit');
+            if (options.mergeBase && !to) args.push('--merge-base');
+            args.push(
+                '--end-of-options',
+                to ? `${base}${options.mergeBase ? '...' : '..'}${assertGitName(to, 'commit')}` : base
+            );
+        }
+
+        // Add the paths, after the options and the range so they are not taken as one
+        const paths = [...(options.file ? [options.file] : []), ...(options.paths ?? [])];
+        if (paths.length > 0) args.push('--', ...paths);
+
+        return args;
     }
 
     /**
@@ -74,60 +114,161 @@ class DiffService {
      *
      * @param options Options for the git diff command.
      * @returns An array of DiffOutputFile objects, each containing details about a file and its hunks.
+     * @throws {DiffParseError} If the output of a file cannot be parsed.
      *
-     * The function splits the diff output into rows and iterates through them. It creates a new DiffOutputFile
-     * object for each file detected in the diff output, collecting its hunks. Hunks are added to the current file
-     * object until a new file is encountered.
+     * The diff is run with `--binary`, so the changes of binary files can be applied, and with the settings that
+     * change its format, such as colors or custom prefixes, turned off. The output is split at every `diff --git`
+     * line and every section is parsed with {@link DiffOutputFile.parse}.
      */
-    public static async parseGitDiffOutput(options: GitDiffOptions): Promise<DiffOutputFile[]> {
-        const diffOutput = await this.diff(options);
-        const lines = diffOutput.split('\n');
-
-        const parsedFiles: DiffOutputFile[] = [];
-        let currentHunk = '';
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-
-            if (line.startsWith('diff --git')) {
-                const lastFile = parsedFiles[parsedFiles.length - 1];
-                if (lastFile) {
-                    lastFile.hunks.push(currentHunk);
-                }
-                currentHunk = '';
-
-                const newFile = new DiffOutputFile({
-                    file: line.replace('diff --git ', ''),
-                    fileName: line.replace('diff --git ', '').split(' ')[0].replace('a/', ''),
-                    index: lines[i + 1],
-                    aFile: lines[i + 2],
-                    bFile: lines[i + 3],
-                    hunks: []
-                });
-                parsedFiles.push(newFile);
-                i += 3;
-            } else if (line.startsWith('@@')) {
-                const lastFile = parsedFiles[parsedFiles.length - 1];
-                if (lastFile) {
-                    lastFile.hunks.push(currentHunk);
-                }
-                //currentHunk = line + '\n';
-                currentHunk = line;
-            } else {
-                //currentHunk += `${line}\n`;
-                currentHunk += `\n${line}`;
-            }
-        }
-        const lastFile = parsedFiles[parsedFiles.length - 1];
-        if (lastFile) {
-            lastFile.hunks.push(currentHunk);
+    public async parseGitDiffOutput(options: GitDiffOptions): Promise<DiffOutputFile[]> {
+        const args = DiffService._buildDiffArgs({ ...options, binary: true, color: false });
+        args.splice(1, 0, ...PARSE_ARGS);
+        const { stdout } = await this._context.git(args);
+
+        return stdout
+            .split(/^(?=diff --git )/m)
+            .filter(section => section.startsWith('diff --git '))
+            .map(section => DiffOutputFile.parse(section));
+    }
+
+    /**
+     * Builds the diff of untracked files, as if they were added to an empty index, with
+     * `git diff --no-index /dev/null <file>`. The index is not touched, and the files can be staged hunk by hunk
+     * like any other diff.
+     *
+     * @example
+     * const untracked = await repository.report.listUntrackedFiles();
+     * const files = await repository.diff.parseUntrackedFiles(untracked);
+     *
+     * @param {string[]} paths - The paths of the untracked files, relative to the directory of the context, such as
+     * the ones of {@link FilesReportService#listUntrackedFiles}.
+     * @returns {Promise<DiffOutputFile[]>} A file with the `added` status for every path.
+     * @throws {CommandExecutionError} If a file cannot be read.
+     * @throws {DiffParseError} If the output of a file cannot be parsed.
+     */
+    public async parseUntrackedFiles(paths: string[]): Promise<DiffOutputFile[]> {
+        const files: DiffOutputFile[] = [];
+
+        for (const path of paths) {
+            const args = ['diff', '--no-index', '--binary', ...PARSE_ARGS, '--', '/dev/null', path];
+            // The exit code is 1 when the files differ, which is always the case
+            const result = await this._context.git(args, { reject: false });
+            if (result.exitCode > 1) ErrorHandler.throw(commandError(result));
+            if (result.stdout.startsWith('diff --git ')) files.push(DiffOutputFile.parse(result.stdout));
         }
 
-        parsedFiles.forEach(file => {
-            file.hunks = file.hunks.filter(hunk => hunk.length > 0);
-        });
+        return files;
+    }
+
+    /**
+     * Counts the added and removed lines of every file with `git diff --numstat -z`.
+     *
+     * @example
+     * const stats = await repository.diff.numstat({ cached: true });
+     * // [{ path: 'src/index.ts', oldPath: null, added: 12, removed: 3, isBinary: false }]
+     *
+     * @param {GitDiffOptions} options - Options for the git diff command. The format options are ignored.
+     * @returns {Promise<TDiffNumstat[]>} The line counts of every file, null for binary files.
+     */
+    public async numstat(options: GitDiffOptions): Promise<TDiffNumstat[]> {
+        return parseNumstat(await this._structuredDiff(options, ['--numstat', '-z']));
+    }
+
+    /**
+     * Lists the changed files with their modes, objects and status with `git diff --raw -z`, without reading
+     * their content.
+     *
+     * @param {GitDiffOptions} options - Options for the git diff command. The format options are ignored.
+     * @returns {Promise<TDiffRawEntry[]>} The entry of every file, with the old and new paths of renames.
+     */
+    public async raw(options: GitDiffOptions): Promise<TDiffRawEntry[]> {
+        return parseRawDiff(await this._structuredDiff(options, ['--raw', '-z', '--no-abbrev']));
+    }
+
+    /**
+     * Counts the changed files and lines of the whole diff with `git diff --shortstat`.
+     *
+     * @param {GitDiffOptions} options - Options for the git diff command. The format options are ignored.
+     * @returns {Promise<TDiffShortstat>} The totals, all zero for an empty diff.
+     */
+    public async shortstat(options: GitDiffOptions): Promise<TDiffShortstat> {
+        return parseShortstat(await this._structuredDiff(options, ['--shortstat']));
+    }
 
-        return parsedFiles;
+    /**
+     * Gets the words changed in every line with `git diff --word-diff=porcelain`, instead of whole lines.
+     *
+     * @example
+     * const [file] = await repository.diff.wordDiff({ file: 'README.md' });
+     * file.hunks[0].lines[0]; // [{ type: 'context', text: 'Run ' }, { type: 'removed', text: 'npm' }, ...]
+     *
+     * @param {GitDiffOptions} options - Options for the git diff command. The format options are ignored.
+     * @returns {Promise<TWordDiffFile[]>} The header and word changes of every file. Binary files have no hunks.
+     * @throws {DiffParseError} If the header of a file cannot be parsed.
+     */
+    public async wordDiff(options: GitDiffOptions): Promise<TWordDiffFile[]> {
+        return parseWordDiff(await this._structuredDiff(options, [...PARSE_ARGS, '--word-diff=porcelain']));
+    }
+
+    /**
+     * See {@link DiffService#diff}, run in the current directory.
+     */
+    public static async diff(options: GitDiffOptions): Promise<string> {
+        return new DiffService().diff(options);
+    }
+
+    /**
+     * See {@link DiffService#parseGitDiffOutput}, run in the current directory.
+     */
+    public static async parseGitDiffOutput(options: GitDiffOptions): Promise<DiffOutputFile[]> {
+        return new DiffService().parseGitDiffOutput(options);
+    }
+
+    /**
+     * See {@link DiffService#parseUntrackedFiles}, run in the current directory.
+     */
+    public static async parseUntrackedFiles(paths: string[]): Promise<DiffOutputFile[]> {
+        return new DiffService().parseUntrackedFiles(paths);
+    }
+
+    /**
+     * See {@link DiffService#numstat}, run in the current directory.
+     */
+    public static async numstat(options: GitDiffOptions): Promise<TDiffNumstat[]> {
+        return new DiffService().numstat(options);
+    }
+
+    /**
+     * See {@link DiffService#raw}, run in the current directory.
+     */
+    public static async raw(options: GitDiffOptions): Promise<TDiffRawEntry[]> {
+        return new DiffService().raw(options);
+    }
+
+    /**
+     * See {@link DiffService#shortstat}, run in the current directory.
+     */
+    public static async shortstat(options: GitDiffOptions): Promise<TDiffShortstat> {
+        return new DiffService().shortstat(options);
+    }
+
+    /**
+     * See {@link DiffService#wordDiff}, run in the current directory.
+     */
+    public static async wordDiff(options: GitDiffOptions): Promise<TWordDiffFile[]> {
+        return new DiffService().wordDiff(options);
+    }
+
+    /**
+     * Runs the diff with the format options replaced by the given flags.
+     */
+    private async _structuredDiff(options: GitDiffOptions, flags: string[]): Promise<string> {
+        const args = DiffService._buildDiffArgs({
+            ...options,
+            ...Object.fromEntries(FORMAT_OPTIONS.map(option => [option, false]))
+        });
+        args.splice(1, 0, ...flags);
+        return (await this._context.git(args)).stdout;
     }
 }
 
@@ -0,0 +1,30 @@
+import { GitExecutor, TRunOptions, TRunResult } from '@app-types';
+import { runGit, streamGit } from '@services/exe-service';
+
+class ChildProcessGitExecutor implements GitExecutor {
+    /**
+     * Runs the git installed on the system, see {@link runGit}.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process.
+     * @returns {Promise<TRunResult>} The output, exit code and duration of the process.
+     * @throws {CommandExecutionError} If the process fails.
+     */
+    public async run(args: string[], options: TRunOptions = {}): Promise<TRunResult> {
+        return runGit(args, options);
+    }
+
+    /**
+     * Runs the git installed on the system, yielding its stdout as it is written, see {@link streamGit}.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process.
+     * @returns {AsyncIterable<string>} The chunks of stdout.
+     * @throws {CommandExecutionError} If the process fails.
+     */
+    public stream(args: string[], options: TRunOptions = {}): AsyncIterable<string> {
+        return streamGit(args, options);
+    }
+}
+
+export { ChildProcessGitExecutor };
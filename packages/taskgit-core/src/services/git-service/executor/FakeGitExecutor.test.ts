@@ -0,0 +1,35 @@
+import { AppError, CommandExecutionError } from '@services/error-handler';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('FakeGitExecutor', () => {
+    it('answers in order and repeats the last response', async () => {
+        const fake = new FakeGitExecutor().on(['rev-parse', 'HEAD'], 'a1b2c3\n').on(['rev-parse', 'HEAD'], 'd4e5f6\n');
+
+        assert.equal((await fake.run(['rev-parse', 'HEAD'])).stdout, 'a1b2c3\n');
+        assert.equal((await fake.run(['rev-parse', 'HEAD'])).stdout, 'd4e5f6\n');
+        assert.equal((await fake.run(['rev-parse', 'HEAD'])).stdout, 'd4e5f6\n');
+        assert.equal(fake.calls.length, 3);
+    });
+
+    it('rejects the calls it has no response for', async () => {
+        const fake = new FakeGitExecutor().on(['status'], '');
+
+        await assert.rejects(fake.run(['status', '--short']), AppError);
+    });
+
+    it('rejects a failed command unless asked not to', async () => {
+        const fake = new FakeGitExecutor().on(['fetch'], { stderr: 'fatal: no remote', exitCode: 128 });
+
+        await assert.rejects(fake.run(['fetch']), CommandExecutionError);
+        assert.equal((await fake.run(['fetch'], { reject: false })).exitCode, 128);
+    });
+
+    it('replays the responses it is built from', async () => {
+        const recorded = new FakeGitExecutor().on(['branch', '--show-current'], 'main\n').responses;
+        const replay = new FakeGitExecutor(JSON.parse(JSON.stringify(recorded)));
+
+        assert.equal((await replay.run(['branch', '--show-current'])).stdout, 'main\n');
+    });
+});
@@ -0,0 +1,131 @@
+import { GitExecutor, TFakeGitResponse, TRunOptions, TRunResult } from '@app-types';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { commandError } from '@services/exe-service';
+import { ChildProcessGitExecutor } from '@services/git-service/executor/ChildProcessGitExecutor';
+
+const sameArgs = (a: string[], b: string[]) => a.length === b.length && a.every((arg, i) => arg === b[i]);
+
+class FakeGitExecutor implements GitExecutor {
+    /**
+     * Every call received, in order, to assert which commands a service ran.
+     */
+    public readonly calls: { args: string[]; options: TRunOptions }[] = [];
+    private readonly _responses: TFakeGitResponse[] = [];
+    private readonly _served: Map<string, number> = new Map();
+    private _recorder: GitExecutor | null = null;
+
+    /**
+     * Creates an executor that answers with canned responses instead of running git. When several responses
+     * are given for the same arguments they are returned in order, and the last one is repeated.
+     *
+     * @example
+     * const fake = new FakeGitExecutor().on(['ls-remote', '--tags'], 'a1b2c3\trefs/tags/v1.0.0\n');
+     * GitContext.setDefault(new GitContext('/repo', fake));
+     * await TaggerService.listTagsRemote(); // [{ tag: 'v1.0.0', commit: 'a1b2c3' }]
+     *
+     * @param {TFakeGitResponse[]} [responses] - The canned responses, such as the ones of a recording.
+     */
+    constructor(responses: TFakeGitResponse[] = []) {
+        responses.forEach(({ args, ...response }) => this.on(args, response));
+    }
+
+    /**
+     * The canned responses, in the order they were added or recorded. They can be saved as JSON and passed to
+     * the constructor to replay a recording.
+     */
+    public get responses(): TFakeGitResponse[] {
+        return this._responses.map(r => ({ ...r, args: [...r.args] }));
+    }
+
+    /**
+     * Adds a response for the given arguments.
+     *
+     * @param {string[]} args - The arguments of git, matched exactly.
+     * @param {string | Omit<TFakeGitResponse, 'args'>} [response] - The response, or just its stdout.
+     * @returns {FakeGitExecutor} The executor, to chain calls.
+     */
+    public on(args: string[], response: string | Omit<TFakeGitResponse, 'args'> = {}): this {
+        const canned = typeof response === 'string' ? { stdout: response } : response;
+        this._responses.push({
+            args: [...args],
+            stdout: canned.stdout ?? '',
+            stderr: canned.stderr ?? '',
+            exitCode: canned.exitCode ?? 0
+        });
+        return this;
+    }
+
+    /**
+     * Answers with the next response for the arguments. While recording, git is run and its output is saved as
+     * a new response.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process. Only `reject` is used.
+     * @returns {Promise<TRunResult>} The canned output and exit code.
+     * @throws {AppError} If there is no response for the arguments.
+     * @throws {CommandExecutionError} If the exit code is not zero and `options.reject` is not false.
+     */
+    public async run(args: string[], options: TRunOptions = {}): Promise<TRunResult> {
+        this.calls.push({ args: [...args], options });
+        const command = ['git', ...args].join(' ');
+
+        if (this._recorder) {
+            const { stdout, stderr, exitCode } = await this._recorder.run(args, { ...options, reject: false });
+            this.on(args, { stdout, stderr, exitCode });
+        }
+
+        const key = JSON.stringify(args);
+        const candidates = this._responses.filter(r => sameArgs(r.args, args));
+        if (candidates.length === 0) {
+            const error = new AppError(`The fake git executor has no response for '${command}'.`);
+            ErrorHandler.throw(error);
+            throw error;
+        }
+
+        const served = this._served.get(key) ?? 0;
+        this._served.set(key, served + 1);
+        const response = this._recorder
+            ? candidates[candidates.length - 1]
+            : candidates[Math.min(served, candidates.length - 1)];
+        const { stdout = '', stderr = '', exitCode = 0 } = response;
+        const result = { command, stdout, stderr, exitCode, duration: 0 };
+
+        if (exitCode !== 0 && options.reject !== false) ErrorHandler.throw(commandError(result));
+
+        return result;
+    }
+
+    /**
+     * Answers with the next response for the arguments, as {@link FakeGitExecutor#run} does, yielding its whole
+     * stdout at once.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} [options] - The options of the process. Only `reject` is used.
+     * @returns {AsyncIterable<string>} The canned stdout.
+     * @throws {AppError} If there is no response for the arguments.
+     * @throws {CommandExecutionError} If the exit code is not zero and `options.reject` is not false.
+     */
+    public async *stream(args: string[], options: TRunOptions = {}): AsyncIterable<string> {
+        const { stdout } = await this.run(args, options);
+        if (stdout.length > 0) yield stdout;
+    }
+
+    /**
+     * Creates an executor that runs git and records every response, to replay them later.
+     *
+     * @example
+     * const recorder = FakeGitExecutor.record();
+     * await new FilesReportService(new GitContext('/repo', recorder)).log({ branch: 'main' });
+     * writeFileSync('log.fixture.json', JSON.stringify(recorder.responses));
+     *
+     * @param {GitExecutor} [executor] - The executor that runs git. Defaults to {@link ChildProcessGitExecutor}.
+     * @returns {FakeGitExecutor} The recording executor.
+     */
+    public static record(executor: GitExecutor = new ChildProcessGitExecutor()): FakeGitExecutor {
+        const fake = new FakeGitExecutor();
+        fake._recorder = executor;
+        return fake;
+    }
+}
+
+export { FakeGitExecutor };
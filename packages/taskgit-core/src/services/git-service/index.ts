@@ -1,8 +1,16 @@
 export * from './branch-service/BranchService';
+export * from './CommitService';
 export * from './ConfigService';
+export * from './diff/DiffHunk';
 export * from './diff/DiffOutputFile';
 export * from './diff/DiffService';
+export * from './executor/ChildProcessGitExecutor';
+export * from './executor/FakeGitExecutor';
+export * from './GitContext';
+export * from './HooksService';
 export * from './report/FilesReport';
 export * from './report/FilesReportService';
+export * from './Repository';
+export * from './StagingService';
 export * from './SubtreeService';
 export * from './TaggerService';
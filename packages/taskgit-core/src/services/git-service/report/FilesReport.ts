@@ -1,44 +1,110 @@
-import { TFileListStatus } from '@app-types';
+import {
+    TBranchStatus,
+    TConflictFile,
+    TConflictState,
+    TFileChange,
+    TFileChangeStatus,
+    TFilesReportDocument,
+    TRepositoryStatus
+} from '@app-types';
+import { OUTPUT_SCHEMA_VERSION } from '@globals';
+
+const STATUS_LETTERS: Record<TFileChangeStatus, string> = {
+    added: 'A',
+    modified: 'M',
+    deleted: 'D',
+    renamed: 'R',
+    copied: 'C',
+    typeChanged: 'T'
+};
+const CONFLICT_CODES: Record<TConflictState, string> = {
+    bothDeleted: 'DD',
+    addedByUs: 'AU',
+    deletedByThem: 'UD',
+    addedByThem: 'UA',
+    deletedByUs: 'DU',
+    bothAdded: 'AA',
+    bothModified: 'UU'
+};
 
 class FilesReport {
-    public readonly staged: TFileListStatus;
-    public readonly unstaged: TFileListStatus;
+    public readonly branch: TBranchStatus;
+    public readonly staged: TFileChange[];
+    public readonly unstaged: TFileChange[];
     public readonly untracked: string[];
+    public readonly ignored: string[];
+    public readonly conflicts: TConflictFile[];
 
-    constructor({
-        staged,
-        unstaged,
-        untracked
-    }: {
-        staged: TFileListStatus;
-        unstaged: TFileListStatus;
-        untracked: string[];
-    }) {
+    constructor({ branch, staged, unstaged, untracked, ignored, conflicts }: TRepositoryStatus) {
+        this.branch = branch;
         this.staged = staged;
         this.unstaged = unstaged;
         this.untracked = untracked;
+        this.ignored = ignored;
+        this.conflicts = conflicts;
+    }
+
+    /**
+     * Whether the index has changes to commit.
+     */
+    public get hasStagedChanges(): boolean {
+        return this.staged.length > 0;
+    }
+
+    /**
+     * Gets the report as a document with a stable schema, to serialize it with {@link OutputService.serialize}.
+     *
+     * @returns {TFilesReportDocument} The branch and every list of files of the report.
+     */
+    public toDocument(): TFilesReportDocument {
+        const { branch, staged, unstaged, untracked, ignored, conflicts } = this;
+        return { schemaVersion: OUTPUT_SCHEMA_VERSION, branch, staged, unstaged, untracked, ignored, conflicts };
+    }
+
+    protected _fileListStatus(list: TFileChange[]) {
+        let report = '';
+        list.forEach(({ status, path, origPath, submodule }) => {
+            const file = origPath ? `${origPath} -> ${path}` : path;
+            const states = submodule
+                ? [
+                      submodule.commitChanged && 'new commits',
+                      submodule.modified && 'modified content',
+                      submodule.untracked && 'untracked content'
+                  ].filter(Boolean)
+                : [];
+            report += `\n${STATUS_LETTERS[status]}  ${file}`;
+            if (states.length > 0) report += ` (submodule: ${states.join(', ')})`;
+        });
+        return report;
+    }
+
+    public branchReport() {
+        const { head, commit, upstream, ahead, behind } = this.branch;
+        let report = head ? `\nOn branch ${head}` : `\nHEAD detached at ${commit?.slice(0, 7) ?? '(no commit)'}`;
+        if (upstream) {
+            const counts = [ahead > 0 && `ahead ${ahead}`, behind > 0 && `behind ${behind}`].filter(Boolean);
+            report += ` [${upstream}${counts.length > 0 ? `: ${counts.join(', ')}` : ''}]`;
+        }
+        return report;
     }
 
-    protected _fileListStatus(list: TFileListStatus) {
+    public conflictsReport() {
         let report = '';
-        list.added.forEach(f => (report += `\nA  ${f}`));
-        list.modified.forEach(f => (report += `\nM  ${f}`));
-        list.deleted.forEach(f => (report += `\nD  ${f}`));
+        if (this.conflicts.length > 0) report += '\nUnmerged files:';
+        this.conflicts.forEach(({ path, state }) => (report += `\n${CONFLICT_CODES[state]} ${path}`));
         return report;
     }
 
     public stagedReport() {
         let report = '';
-        if (this.staged.added.length > 0 || this.staged.modified.length > 0 || this.staged.deleted.length > 0)
-            report += '\nStaged files:';
+        if (this.staged.length > 0) report += '\nStaged files:';
         report += this._fileListStatus(this.staged);
         return report;
     }
 
     public unstagedReport() {
         let report = '';
-        if (this.unstaged.added.length > 0 || this.unstaged.modified.length > 0 || this.unstaged.deleted.length > 0)
-            report += '\nUnstaged files:';
+        if (this.unstaged.length > 0) report += '\nUnstaged files:';
         report += this._fileListStatus(this.unstaged);
         return report;
     }
@@ -50,10 +116,26 @@ class FilesReport {
         return report;
     }
 
+    public ignoredReport() {
+        let report = '';
+        if (this.ignored.length > 0) report += '\nIgnored files:';
+        this.ignored.forEach(f => (report += `\n!  ${f}`));
+        return report;
+    }
+
     public totalReport() {
         let report = '';
 
-        report += [this.stagedReport(), this.unstagedReport(), this.untrackedReport()].join('\n');
+        report += [
+            this.branchReport(),
+            this.conflictsReport(),
+            this.stagedReport(),
+            this.unstagedReport(),
+            this.untrackedReport(),
+            this.ignoredReport()
+        ]
+            .filter(section => section.length > 0)
+            .join('\n');
 
         return report;
     }
@@ -0,0 +1,28 @@
+import { LOG_FORMAT } from '@globals';
+import { AppError } from '@services/error-handler';
+import { FakeGitExecutor } from '@services/git-service/executor/FakeGitExecutor';
+import { GitContext } from '@services/git-service/GitContext';
+import { FilesReportService } from '@services/git-service/report/FilesReportService';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const LOG_ARGS = ['log', '-z', `--pretty=format:${LOG_FORMAT}`];
+
+describe('FilesReportService', () => {
+    it('passes the range of the log after the options', async () => {
+        const fake = new FakeGitExecutor().on([...LOG_ARGS, '--end-of-options', 'v1.0.0..main', '--', 'src'], '');
+        const report = new FilesReportService(new GitContext('/repo', fake));
+
+        assert.deepEqual(await report.log({ from: 'v1.0.0', branch: 'main', paths: ['src'] }), []);
+        assert.equal(fake.calls.length, 1);
+    });
+
+    it('rejects the commits git would read as options', async () => {
+        const fake = new FakeGitExecutor();
+        const report = new FilesReportService(new GitContext('/repo', fake));
+
+        await assert.rejects(report.log({ to: '--output=/tmp/log' }), AppError);
+        await assert.rejects(report.log({ from: '--all', to: 'main' }), AppError);
+        assert.deepEqual(fake.calls, []);
+    });
+});
@@ -1,35 +1,57 @@
-import { GitLogCommitInfo } from '@app-types';
-import { LOG_SPLITTER } from '@globals';
-import { exeCommand } from '@services/exe-service';
+import { GitLogCommitInfo, TFileChange, TLogPage, TLogPageOptions, TLogQuery, TRepositoryStatus } from '@app-types';
+import { DEFAULT_LOG_PAGE_SIZE, LOG_FORMAT } from '@globals';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { ConventionalCommitParser } from '@services/conventional-commit-service/ConventionalCommitParser';
+import { GitContext } from '@services/git-service/GitContext';
 import { FilesReport } from '@services/git-service/report/FilesReport';
-import { processFiles } from '@utils/gitServiceUtils';
+import { assertGitName, parseLog, parseStatus } from '@utils/gitServiceUtils';
 
 class FilesReportService {
+    private readonly _context: GitContext;
+
+    /**
+     * @param {GitContext} [context] - The repository to report on. Defaults to the current directory.
+     */
+    constructor(context: GitContext = GitContext.default()) {
+        this._context = context;
+    }
+
+    /**
+     * Get the state of the worktree with a single `git status --porcelain=v2 -z --branch` call: the current
+     * branch and its upstream, the staged and unstaged changes, including renames, copies, type changes and
+     * submodules, the files with conflicts and the untracked files, every one of them listed.
+     *
+     * @param options.ignored Whether to list the ignored files too. A directory ignored as a whole is listed
+     * once instead of every file in it.
+     * @returns A promise that resolves with the status of the repository.
+     * @throws {ExternalServiceError} If the command fails.
+     */
+    public async status(options: { ignored?: boolean } = {}): Promise<TRepositoryStatus> {
+        const args = ['status', '--porcelain=v2', '-z', '--branch', '--untracked-files=all'];
+        if (options.ignored) args.push('--ignored=matching');
+
+        const { stdout: data } = await this._context.git(args);
+        return parseStatus(data);
+    }
+
     /**
      * Get a list of staged files from Git.
      *
-     * @returns A promise that resolves with an object containing three properties: added, modified and deleted.
-     * Each property is an array of strings, containing the names of the files that have been added, modified or
-     * deleted, respectively.
+     * @returns A promise that resolves with the changes of the index against HEAD.
      * @throws {ExternalServiceError} If the command fails.
      */
-    public static listStagedFiles = async () => {
-        const data = await exeCommand('git diff --name-status --staged');
-        return processFiles(data);
-    };
+    public async listStagedFiles(): Promise<TFileChange[]> {
+        return (await this.status()).staged;
+    }
 
     /**
      * Get a list of unstaged files from Git.
      *
-     * @returns A promise that resolves with an object containing three properties: added, modified, and deleted.
-     * Each property is an array of strings, containing the names of the files that have been added, modified, or
-     * deleted, respectively.
+     * @returns A promise that resolves with the changes of the working tree against the index.
      * @throws {ExternalServiceError} If the command fails.
      */
-
-    public static async listUnstagedFiles() {
-        const data = await exeCommand('git diff --name-status');
-        return processFiles(data);
+    public async listUnstagedFiles(): Promise<TFileChange[]> {
+        return (await this.status()).unstaged;
     }
 
     /**
@@ -39,67 +61,295 @@ class FilesReportService {
      * tracked by Git.
      * @throws {ExternalServiceError} If the command fails.
      */
-    public static async listUntrackedFiles() {
-        const data = await exeCommand('git ls-files --others --exclude-standard');
+    public async listUntrackedFiles() {
+        // NUL-separated, so the names are neither quoted nor trimmed
+        const { stdout: data } = await this._context.git(['ls-files', '-z', '--others', '--exclude-standard']);
 
-        return data
-            .split('\n')
-            .map(line => line.trim())
-            .filter(f => f.length > 0);
+        return data.split('\0').filter(f => f.length > 0);
     }
 
     /**
-     * Get a report of the files in the Git repository, including staged, unstaged, and untracked files.
+     * Get a report of the files in the Git repository, including staged, unstaged, untracked and conflicted
+     * files, and the current branch. See {@link FilesReportService#status}.
      *
-     * @returns A promise that resolves with an object containing the file lists.
+     * @param options.ignored Whether to list the ignored files too.
+     * @returns A promise that resolves with the report.
      * @throws {ExternalServiceError} If the command fails.
      */
-    public static async filesReport() {
-        const staged = await this.listStagedFiles();
-        const unstaged = await this.listUnstagedFiles();
-        const untracked = await this.listUntrackedFiles();
-        return new FilesReport({ staged, unstaged, untracked });
+    public async filesReport(options: { ignored?: boolean } = {}): Promise<FilesReport> {
+        return new FilesReport(await this.status(options));
     }
 
     /**
-     * Get a list of Git commits.
+     * Get a list of Git commits. The log is read with {@link FilesReportService#logStream}, use it to handle the
+     * commits of a long history one at a time, or {@link FilesReportService#logPage} to read them in pages.
      *
-     * @param args An object with three optional properties: `from`, `to`, and `branch`.
-     * `from` and `to` specify the range of commits to retrieve. If `from` is specified but `to` is not, the
-     * function will retrieve all commits newer than `from`. If `to` is specified but `from` is not, the
-     * function will retrieve all commits older than `to`.
-     * `branch` specifies the branch from which to retrieve commits. If not specified, the function will use
-     * the current branch.
+     * @example
+     * // The fixes of an author in a package since a date
+     * await service.log({ author: 'ana@example.com', type: 'fix', paths: ['packages/core'], since: '2024-05-01' });
+     *
+     * @param query The range and the filters of the commits, see {@link TLogQuery}. `from` and `to` specify the
+     * range of commits to retrieve: all the commits newer than `from` if only `from` is given, and all the
+     * commits older than `to` if only `to` is given. Without them, the whole history of `branch` is read, the
+     * current branch by default.
+     *
+     * The filters are passed to `git log`, except `type` and `scope`, which are matched by parsing the title of
+     * every commit as a Conventional Commit; `maxCount` and `skip` are then applied to the matching commits.
      *
      * @returns A promise that resolves with an array of `GitLogCommitInfo` objects, each containing the
-     * commit hash, author name, author email, commit date, commit title, and commit body.
+     * commit hash, parents, author, committer, refs, title, body, trailers and changed files.
+     * @throws {ExternalServiceError} If the command fails.
+     */
+    public async log(query: TLogQuery = {}): Promise<GitLogCommitInfo[]> {
+        const commits: GitLogCommitInfo[] = [];
+        for await (const commit of this.logStream(query)) commits.push(commit);
+        return commits;
+    }
+
+    /**
+     * Reads the commits of {@link FilesReportService#log} as `git log` writes them, parsing every commit once
+     * it is complete, so the whole log is never held in memory. `git log` is stopped when the iteration is.
+     *
+     * @example
+     * for await (const commit of service.logStream({ merges: 'exclude' })) {
+     *     if (commit.title.startsWith('chore(release)')) break;
+     * }
+     *
+     * @param query The range and the filters of the commits, see {@link FilesReportService#log}.
+     * @returns The commits, newest first.
+     * @throws {CommandExecutionError} Once the commits are read, if the command fails.
+     */
+    public async *logStream(query: TLogQuery = {}): AsyncGenerator<GitLogCommitInfo> {
+        const { maxCount, skip = 0 } = query;
+        const byMessage =
+            FilesReportService._list(query.type).length + FilesReportService._list(query.scope).length > 0;
+        if (maxCount !== undefined && maxCount <= 0) return;
+
+        // The commits filtered by type or scope are counted once parsed
+        if (!byMessage) {
+            for await (const { commit } of this._readLog(query, skip, maxCount)) yield commit;
+            return;
+        }
+
+        let seen = 0;
+        for await (const { commit, matches } of this._readLog(query, 0)) {
+            if (!matches) continue;
+            seen++;
+            if (seen > skip) yield commit;
+            if (maxCount !== undefined && seen >= skip + maxCount) return;
+        }
+    }
+
+    /**
+     * Reads a page of the commits of {@link FilesReportService#log}, to list a long history in steps. Every
+     * page starts where the previous one ended, so reading a long history in pages costs about as much as
+     * reading it at once.
+     *
+     * @example
+     * let page = await service.logPage({ merges: 'exclude' }, { limit: 50 });
+     * while (page.cursor) page = await service.logPage({ merges: 'exclude' }, { limit: 50, cursor: page.cursor });
+     *
+     * @param query The range and the filters of the commits, the same for every page. The pages take the place
+     * of `maxCount` and `skip`, which cannot be given.
+     * @param options.limit The number of commits of the page. Defaults to 50.
+     * @param options.cursor The cursor of the previous page, to read the commits that follow it.
+     * @returns A promise that resolves with the commits of the page and the cursor of the next one.
+     * @throws {AppError} If the limit is not a positive integer, the query has `maxCount` or `skip`, or the
+     * cursor is not valid or not in the log of the query.
      * @throws {ExternalServiceError} If the command fails.
      */
-    public static async log(args: { from?: string; to?: string; branch?: string } = {}): Promise<GitLogCommitInfo[]> {
-        const { from, to, branch = 'master' } = args;
-
-        let command = `git log ${branch} --pretty=format:"%H%n%an%n%ae%n%ad%n%s%n%b${LOG_SPLITTER}"`;
-
-        if (from) command += ` ${from}..${to ?? ''}`;
-
-        const log = await exeCommand(command);
-        return log
-            .split(LOG_SPLITTER)
-            .filter(l => l.length > 0)
-            .map(c => {
-                const [hash, authorName, email, date, message, ...body] = c
-                    .trim()
-                    .split('\n')
-                    .map(l => l.trim());
-
-                return {
-                    hash: hash.trim(),
-                    author: { name: authorName.trim(), email: email.trim() },
-                    date: date.trim(),
-                    title: message.trim(),
-                    body: body.join('\n').trim()
-                };
-            });
+    public async logPage(query: TLogQuery = {}, options: TLogPageOptions = {}): Promise<TLogPage> {
+        const { limit = DEFAULT_LOG_PAGE_SIZE, cursor } = options;
+        if (!Number.isInteger(limit) || limit < 1)
+            ErrorHandler.throw(new AppError(`The limit of a page must be a positive integer, got ${limit}.`));
+        if (query.maxCount !== undefined || query.skip !== undefined)
+            ErrorHandler.throw(
+                new AppError('The pages of the log are read with a limit and a cursor, not maxCount and skip.')
+            );
+
+        const match = cursor === undefined ? null : /^([0-9a-f]+):([1-9]\d*)$/.exec(cursor);
+        if (cursor !== undefined && !match) {
+            const error = new AppError(`The cursor ${cursor} is not a cursor of the log.`);
+            ErrorHandler.throw(error);
+            throw error;
+        }
+
+        // The cursor is the last commit of the previous page and the position after it. The page starts there,
+        // unless new commits have moved it and the commit is searched from the start of the log.
+        const page = match
+            ? ((await this._readPage(query, limit, match[1], Number(match[2]) - 1)) ??
+              (await this._readPage(query, limit, match[1], 0)))
+            : await this._readPage(query, limit, null, 0);
+
+        if (!page) ErrorHandler.throw(new AppError(`The cursor ${cursor} is not in the log of the query.`));
+        return page ?? { commits: [], cursor: null };
+    }
+
+    /**
+     * See {@link FilesReportService#status}, run in the current directory.
+     */
+    public static async status(options?: { ignored?: boolean }): Promise<TRepositoryStatus> {
+        return new FilesReportService().status(options);
+    }
+
+    /**
+     * See {@link FilesReportService#listStagedFiles}, run in the current directory.
+     */
+    public static async listStagedFiles(): Promise<TFileChange[]> {
+        return new FilesReportService().listStagedFiles();
+    }
+
+    /**
+     * See {@link FilesReportService#listUnstagedFiles}, run in the current directory.
+     */
+    public static async listUnstagedFiles(): Promise<TFileChange[]> {
+        return new FilesReportService().listUnstagedFiles();
+    }
+
+    /**
+     * See {@link FilesReportService#listUntrackedFiles}, run in the current directory.
+     */
+    public static async listUntrackedFiles() {
+        return new FilesReportService().listUntrackedFiles();
+    }
+
+    /**
+     * See {@link FilesReportService#filesReport}, run in the current directory.
+     */
+    public static async filesReport(options?: { ignored?: boolean }): Promise<FilesReport> {
+        return new FilesReportService().filesReport(options);
+    }
+
+    /**
+     * See {@link FilesReportService#log}, run in the current directory.
+     */
+    public static async log(query?: TLogQuery): Promise<GitLogCommitInfo[]> {
+        return new FilesReportService().log(query);
+    }
+
+    /**
+     * See {@link FilesReportService#logStream}, run in the current directory.
+     */
+    public static logStream(query?: TLogQuery): AsyncGenerator<GitLogCommitInfo> {
+        return new FilesReportService().logStream(query);
+    }
+
+    /**
+     * See {@link FilesReportService#logPage}, run in the current directory.
+     */
+    public static async logPage(query?: TLogQuery, options?: TLogPageOptions): Promise<TLogPage> {
+        return new FilesReportService().logPage(query, options);
+    }
+
+    private static _list(value?: string | string[]): string[] {
+        return value === undefined ? [] : [value].flat();
+    }
+
+    /**
+     * Reads the log of a query from the given position of the output of `git log`, as `git log` writes it. The
+     * `maxCount` and `skip` of the query are not used.
+     *
+     * @param query The range and the filters of the commits.
+     * @param skip The number of commits of the output to skip.
+     * @param maxCount The maximum number of commits of the output.
+     * @returns Every commit of the output, its position in the output and whether it matches the type and the
+     * scope of the query.
+     */
+    private async *_readLog(
+        query: TLogQuery,
+        skip: number,
+        maxCount?: number
+    ): AsyncGenerator<{ commit: GitLogCommitInfo; position: number; matches: boolean }> {
+        const { from, to, branch = 'HEAD', files = false, merges = 'include' } = query;
+        const types = FilesReportService._list(query.type).map(type => type.toLowerCase());
+        const scopes = FilesReportService._list(query.scope);
+
+        const tip = assertGitName(to ?? branch, 'commit');
+        const range = from ? `${assertGitName(from, 'commit')}..${tip}` : tip;
+        const logArgs = ['log', '-z', `--pretty=format:${LOG_FORMAT}`];
+        if (files) logArgs.push('--name-status', '-M');
+
+        const date = (value: string | Date) => (value instanceof Date ? value.toISOString() : value);
+        const filters = [
+            { option: query.author, flag: `--author=${query.author}` },
+            { option: query.committer, flag: `--committer=${query.committer}` },
+            { option: query.since, flag: `--since=${query.since && date(query.since)}` },
+            { option: query.until, flag: `--until=${query.until && date(query.until)}` },
+            { option: query.grep, flag: `--grep=${query.grep}` },
+            { option: query.firstParent, flag: '--first-parent' },
+            { option: merges === 'exclude', flag: '--no-merges' },
+            { option: merges === 'only', flag: '--merges' },
+            { option: maxCount !== undefined, flag: `--max-count=${maxCount}` },
+            { option: skip > 0, flag: `--skip=${skip}` }
+        ];
+        filters.forEach(filter => {
+            if (filter.option) logArgs.push(filter.flag);
+        });
+
+        const matches = (commit: GitLogCommitInfo) => {
+            if (types.length === 0 && scopes.length === 0) return true;
+            const parsed = ConventionalCommitParser.tryParse(commit.title);
+            return (
+                parsed !== null &&
+                (types.length === 0 || types.includes(parsed.type.toLowerCase())) &&
+                (scopes.length === 0 || scopes.includes(parsed.scope ?? ''))
+            );
+        };
+
+        let position = skip;
+        let pending = '';
+        const output = this._context.gitStream([...logArgs, '--end-of-options', range, '--', ...(query.paths ?? [])]);
+        for await (const chunk of FilesReportService._withEnd(output)) {
+            pending += chunk ?? '\x1e';
+            // Every commit starts with a separator, the last one is complete once the next starts
+            const end = pending.lastIndexOf('\x1e');
+            if (end <= 0) continue;
+
+            const commits = parseLog(pending.slice(0, end));
+            pending = pending.slice(end);
+            for (const commit of commits) yield { commit, position: position++, matches: matches(commit) };
+        }
+    }
+
+    /**
+     * Reads a page of the log from a position of the output of `git log`. With a cursor, the commit at the
+     * position must be the one of the cursor, or is searched after it.
+     *
+     * @returns The page, or `null` if the commit of the cursor is not found.
+     */
+    private async _readPage(
+        query: TLogQuery,
+        limit: number,
+        cursor: string | null,
+        position: number
+    ): Promise<TLogPage | null> {
+        const commits: GitLogCommitInfo[] = [];
+        let found = cursor === null;
+        let last = position;
+
+        for await (const entry of this._readLog(query, position)) {
+            if (!found) {
+                found = entry.commit.hash === cursor;
+                // Not where the cursor left it, the log has changed since
+                if (!found && position > 0) return null;
+                continue;
+            }
+            if (!entry.matches) continue;
+            // The commit after the page is read only to know whether there is a next one
+            if (commits.length === limit) return { commits, cursor: `${commits[limit - 1].hash}:${last + 1}` };
+            commits.push(entry.commit);
+            last = entry.position;
+        }
+
+        return found ? { commits, cursor: null } : null;
+    }
+
+    /**
+     * Yields the chunks of an output followed by `null`, to know when the last one has been read.
+     */
+    private static async *_withEnd(chunks: AsyncIterable<string>): AsyncGenerator<string | null> {
+        yield* chunks;
+        yield null;
     }
 }
 
@@ -1,8 +1,13 @@
 export * from './cache/cacheService';
 export * from './changelog-service/ChangeLogService';
+export * from './commit-lint-service/CommitLintService';
+export * from './conventional-commit-service/ConventionalCommitBuilder';
+export * from './conventional-commit-service/ConventionalCommitParser';
 export * from './error-handler/index';
 export * from './exe-service/index';
 export * from './file-management-service/fileService';
 export * from './git-service/index';
 export * from './markdown-service/MarkdownService';
 export * from './npm-service/NpmService';
+export * from './output-service/OutputService';
+export * from './project-config-service/ProjectConfigService';
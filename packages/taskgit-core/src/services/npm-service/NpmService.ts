@@ -1,5 +1,5 @@
 import { AppError, ErrorHandler } from '@services/error-handler';
-import { exeCommand } from '@services/exe-service';
+import { runCommand } from '@services/exe-service';
 
 type TAllVersionOptions = {
     type?: 'major' | 'minor' | 'patch' | 'premajor' | 'preminor' | 'prepatch' | 'prerelease' | 'from-git';
@@ -26,33 +26,31 @@ class NpmService {
      * @throws AppError if both type and version are provided.
      */
     public static async version(data: TAllVersionOptions): Promise<string> {
-        let command = ['npm version'];
+        const args = ['version'];
 
         if (!data.type && !data.version)
             ErrorHandler.throw(new AppError('Type or version must be provided for this option.'));
         if (data.type && data.version)
             console.warn('Type and version cannot be provided at the same time. Ommitted version.');
 
-        command.push(data.version || (data.type as string));
+        args.push(data.version || (data.type as string));
 
-        if (!data.useCommitHooks) command.push('--no-commit-hooks');
-        if (!data.createTag) command.push('--no-git-tag-version');
+        if (!data.useCommitHooks) args.push('--no-commit-hooks');
+        if (!data.createTag) args.push('--no-git-tag-version');
 
         if (data.preid) {
             if (!['premajor', 'preminor', 'prepatch', 'prerelease'].includes(data.type as string))
                 console.warn(
                     'Preid can only be used with "premajor", "preminor", "prepatch" or "prerelease" this option has no effect.'
                 );
-            else command.push(`--preid=${data.preid}`);
+            else args.push(`--preid=${data.preid}`);
         }
 
-        if (data.customMessage) command.push(`--message="${data.customMessage}"`);
+        if (data.customMessage) args.push(`--message=${data.customMessage}`);
 
-        command.push('--json');
+        args.push('--json');
 
-        console.log(command.join(' '));
-
-        return await exeCommand(command.join(' '));
+        return (await runCommand('npm', args)).stdout;
     }
 
     /**
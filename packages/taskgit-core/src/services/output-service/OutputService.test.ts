@@ -0,0 +1,33 @@
+import { OutputService } from '@services/output-service/OutputService';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parse } from 'yaml';
+
+const DOCUMENT = {
+    schemaVersion: 1,
+    version: '1.2.0',
+    date: '2026-10-19',
+    tags: ['2024-01-01', 'v1.0.0', '0x1F', '0o17', '017', '1:30', '1e3', '.inf', 'yes', 'N', 'null', '~'],
+    commits: [
+        { hash: '0123abc', title: 'feat(cli): add "quoted" text: with a colon', body: '', author: null },
+        { hash: 'e1', title: '- a list?', body: 'line\nbreak ', author: 'Jane Doe <jane@example.com>' }
+    ],
+    empty: [],
+    nested: {}
+};
+
+describe('OutputService', () => {
+    it('writes YAML that YAML 1.1 and 1.2 parsers read back as the same document', () => {
+        const yaml = OutputService.serialize(DOCUMENT, 'yaml');
+
+        assert.deepEqual(parse(yaml, { version: '1.1' }), DOCUMENT);
+        assert.deepEqual(parse(yaml, { version: '1.2' }), DOCUMENT);
+    });
+
+    it('writes the words as plain scalars', () => {
+        assert.equal(
+            OutputService.serialize({ type: 'feat', branch: 'release-1.x' }, 'yaml'),
+            'type: feat\nbranch: release-1.x'
+        );
+    });
+});
@@ -0,0 +1,69 @@
+import { TOutputFormat } from '@app-types';
+import { AppError, ErrorHandler } from '@services/error-handler';
+
+/**
+ * The strings written as plain scalars: a word, such as a type or a branch name. Anything else, such as a date, a
+ * number or a hash, could be read as another type by some parser, `2024-01-01` as a date or `0x1F` as a number by
+ * YAML 1.1, so it is quoted.
+ */
+const YAML_PLAIN = /^[A-Za-z_][\w.-]*$/;
+/**
+ * The words YAML reads as a boolean or null, and the exponents without a number, such as `e1`, that some YAML 1.1
+ * parsers read as a number.
+ */
+const YAML_RESERVED = /^(?:true|false|yes|no|y|n|on|off|null|e\d+)$/i;
+
+class OutputService {
+    /**
+     * Serializes a document, such as the ones of {@link FilesReport#toDocument}, to print it.
+     *
+     * @param {unknown} document - A value made of objects, arrays, strings, numbers, booleans and null.
+     * @param {Exclude<TOutputFormat, 'text'>} format - The format.
+     * @returns {string} The document as JSON, indented by two spaces, or as a YAML document.
+     * @throws {AppError} If the format is not supported.
+     */
+    public static serialize(document: unknown, format: Exclude<TOutputFormat, 'text'>): string {
+        if (format === 'json') return JSON.stringify(document, null, 2);
+        if (format === 'yaml') return OutputService._yaml(document, 0).replace(/^\n/, '');
+
+        const error = new AppError(`The '${format}' format cannot be serialized.`);
+        ErrorHandler.throw(error);
+        throw error;
+    }
+
+    /**
+     * Writes a value in block style. Objects and arrays start on a new line, indented under their key, and the
+     * strings that are not a plain word, see {@link YAML_PLAIN}, are written in double quotes, with JSON escapes.
+     */
+    private static _yaml(value: unknown, depth: number): string {
+        const indent = '  '.repeat(depth);
+
+        if (value === null || value === undefined) return 'null';
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        if (typeof value === 'string')
+            return YAML_PLAIN.test(value) && !YAML_RESERVED.test(value) ? value : JSON.stringify(value);
+
+        if (Array.isArray(value)) {
+            if (value.length === 0) return '[]';
+            return value
+                .map(item => {
+                    const nested = OutputService._yaml(item, depth + 1);
+                    // The first key of an object in a list goes on the line of the dash
+                    return `\n${indent}- ${nested.startsWith('\n') ? nested.trimStart() : nested}`;
+                })
+                .join('');
+        }
+
+        const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+        if (entries.length === 0) return '{}';
+        return entries
+            .map(([key, v]) => {
+                const name = YAML_PLAIN.test(key) && !YAML_RESERVED.test(key) ? key : JSON.stringify(key);
+                const nested = OutputService._yaml(v, depth + 1);
+                return `\n${indent}${name}:${nested.startsWith('\n') ? nested : ` ${nested}`}`;
+            })
+            .join('');
+    }
+}
+
+export { OutputService };
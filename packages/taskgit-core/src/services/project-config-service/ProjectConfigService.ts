@@ -0,0 +1,196 @@
+import { TaskgitConfig, TChangelogSection, TCommitLintRules, TCommitPrompts, TCommitType } from '@app-types';
+import {
+    CHANGELOG_SECTIONS,
+    COMMIT_STANDARD_TYPES,
+    DEFAULT_COMMIT_LINT_RULES,
+    DEFAULT_COMMIT_PROMPTS,
+    PROJECT_CONFIG_FILES
+} from '@globals';
+import { ErrorHandler, ProjectConfigError } from '@services/error-handler';
+import { rf } from '@services/file-management-service/fileService';
+import { existsSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+class ProjectConfigService {
+    private static _cache: Record<string, TaskgitConfig> = {};
+
+    /**
+     * Finds the root of the git worktree that contains the given directory.
+     *
+     * @param {string} [cwd=process.cwd()] - The directory to start searching from.
+     * @returns {string | null} The worktree root, or null if the directory is not inside a repository.
+     */
+    public static findRepositoryRoot(cwd: string = process.cwd()): string | null {
+        let dir = resolve(cwd);
+        while (true) {
+            if (existsSync(join(dir, '.git'))) return dir;
+            const parent = dirname(dir);
+            if (parent === dir) return null;
+            dir = parent;
+        }
+    }
+
+    /**
+     * Finds the project configuration file, walking up from the repository root to the file system root.
+     * Every directory is checked for `.taskgitrc.json`, `taskgit.config.json` and a `package.json` with a
+     * `taskgit` key, in that order.
+     *
+     * @param {string} [cwd=process.cwd()] - The directory used to locate the repository.
+     * @returns {string | null} The path of the configuration file, or null if there is none.
+     */
+    public static findConfigFile(cwd: string = process.cwd()): string | null {
+        let dir = this.findRepositoryRoot(cwd) ?? resolve(cwd);
+        while (true) {
+            for (const name of PROJECT_CONFIG_FILES) {
+                const file = join(dir, name);
+                if (!existsSync(file)) continue;
+                if (name !== 'package.json' || this._readJson(file).taskgit !== undefined) return file;
+            }
+            const parent = dirname(dir);
+            if (parent === dir) return null;
+            dir = parent;
+        }
+    }
+
+    /**
+     * Loads the project configuration. The result is cached per directory, so later calls do not read the file
+     * system again.
+     *
+     * @param {string} [cwd=process.cwd()] - The directory used to locate the configuration file.
+     * @param {boolean} [reload=false] - Whether to ignore the cached configuration.
+     * @returns {TaskgitConfig} The configuration, or the defaults if no configuration file exists.
+     * @throws {ProjectConfigError} If the configuration file is not valid.
+     */
+    public static load(cwd: string = process.cwd(), reload: boolean = false): TaskgitConfig {
+        const key = resolve(cwd);
+        if (!reload && this._cache[key]) return this._cache[key];
+
+        const file = this.findConfigFile(cwd);
+        let raw: unknown = {};
+        if (file) {
+            const json = this._readJson(file);
+            raw = basename(file) === 'package.json' ? json.taskgit : json;
+        }
+
+        this._cache[key] = this.parse(raw, file);
+        return this._cache[key];
+    }
+
+    /**
+     * Validates a raw configuration object and fills the missing values with the defaults.
+     *
+     * @param {unknown} raw - The configuration object as read from the file.
+     * @param {string | null} file - The path of the file the object was read from.
+     * @returns {TaskgitConfig} The validated configuration.
+     * @throws {ProjectConfigError} If the configuration is not valid.
+     */
+    public static parse(raw: unknown, file: string | null): TaskgitConfig {
+        const source = file ?? 'default configuration';
+        if (!this._isObject(raw)) return this._invalid('The configuration must be an object.', source);
+
+        const types = raw.types === undefined ? COMMIT_STANDARD_TYPES : this._parseTypes(raw.types, source);
+
+        if (raw.scopes !== undefined && !this._isStringList(raw.scopes))
+            return this._invalid('"scopes" must be a list of strings.', source);
+        const scopes = raw.scopes ?? [];
+
+        if (raw.prompts !== undefined && !this._isObject(raw.prompts))
+            return this._invalid('"prompts" must be an object.', source);
+        const prompts: TCommitPrompts = { ...DEFAULT_COMMIT_PROMPTS };
+        Object.entries(raw.prompts ?? {}).forEach(([key, value]) => {
+            if (!(key in prompts)) this._invalid(`Unknown prompt "${key}".`, source);
+            if (typeof value !== 'string') this._invalid(`The prompt "${key}" must be a string.`, source);
+            prompts[key as keyof TCommitPrompts] = value;
+        });
+
+        const lint = this._parseLintRules(raw.lint, source);
+
+        return { types, scopes, prompts, lint, configFile: file };
+    }
+
+    /**
+     * Finds a commit type by its name.
+     *
+     * @param {string} name - The name of the type.
+     * @param {TaskgitConfig} [config] - The configuration to search in. Defaults to the project configuration.
+     * @returns {TCommitType | undefined} The commit type, or undefined if it is not configured.
+     */
+    public static findType(name: string, config: TaskgitConfig = this.load()): TCommitType | undefined {
+        return config.types.find(t => t.name === name);
+    }
+
+    private static _parseTypes(types: unknown, source: string): TCommitType[] {
+        if (!Array.isArray(types) || types.length === 0)
+            return this._invalid('"types" must be a non empty list.', source);
+
+        const parsed = types.map((type, i) => {
+            if (!this._isObject(type) || typeof type.name !== 'string' || type.name.length === 0)
+                return this._invalid(`The type at position ${i} must have a "name".`, source);
+            if (
+                type.changelogSection !== undefined &&
+                !CHANGELOG_SECTIONS.includes(type.changelogSection as TChangelogSection)
+            )
+                return this._invalid(
+                    `The type "${type.name}" has an invalid "changelogSection". Valid sections are ${CHANGELOG_SECTIONS.join(', ')}.`,
+                    source
+                );
+
+            return {
+                name: type.name,
+                icon: typeof type.icon === 'string' ? type.icon : '',
+                description: typeof type.description === 'string' ? type.description : '',
+                changelogSection: type.changelogSection as TChangelogSection | undefined
+            };
+        });
+
+        const duplicated = parsed.find((t, i) => parsed.findIndex(o => o.name === t.name) !== i);
+        if (duplicated) return this._invalid(`The type "${duplicated.name}" is defined more than once.`, source);
+
+        return parsed;
+    }
+
+    private static _parseLintRules(lint: unknown, source: string): TCommitLintRules {
+        if (lint === undefined) return { ...DEFAULT_COMMIT_LINT_RULES };
+        if (!this._isObject(lint)) return this._invalid('"lint" must be an object.', source);
+
+        const rules: TCommitLintRules = { ...DEFAULT_COMMIT_LINT_RULES };
+        Object.entries(lint).forEach(([key, value]) => {
+            if (key === 'maxTitleLength') {
+                if (typeof value !== 'number' || value <= 0)
+                    this._invalid('"lint.maxTitleLength" must be a positive number.', source);
+                rules.maxTitleLength = value;
+            } else if (key in rules) {
+                if (!this._isStringList(value)) this._invalid(`"lint.${key}" must be a list of strings.`, source);
+                rules[key as Exclude<keyof TCommitLintRules, 'maxTitleLength'>] = value;
+            } else this._invalid(`Unknown lint rule "${key}".`, source);
+        });
+
+        return rules;
+    }
+
+    private static _readJson(file: string): Record<string, unknown> {
+        let json: unknown;
+        try {
+            json = JSON.parse(rf(file));
+        } catch (error) {
+            return this._invalid(`Unable to read the configuration: ${(error as Error).message}`, file);
+        }
+        return this._isObject(json) ? json : this._invalid('The file must hold a JSON object.', file);
+    }
+
+    private static _isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    private static _isStringList(value: unknown): value is string[] {
+        return Array.isArray(value) && value.every(v => typeof v === 'string');
+    }
+
+    private static _invalid(message: string, file: string): never {
+        const error = new ProjectConfigError(`Invalid taskgit configuration in '${file}': ${message}`, file);
+        ErrorHandler.throw(error);
+        throw error;
+    }
+}
+
+export { ProjectConfigService };
@@ -1,40 +1,332 @@
-export type TFileListStatus = {
-    added: string[];
-    modified: string[];
-    deleted: string[];
+/**
+ * What a change of the index or the working tree does to a file, as reported by `git status`.
+ */
+export type TFileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'typeChanged';
+
+/**
+ * The state of a submodule in `git status`.
+ */
+export type TSubmoduleState = {
+    /**
+     * Whether the submodule points to another commit.
+     */
+    commitChanged: boolean;
+    /**
+     * Whether the submodule has changes to its tracked files.
+     */
+    modified: boolean;
+    /**
+     * Whether the submodule has untracked files.
+     */
+    untracked: boolean;
 };
 
-export type TDiffOutputFileConf = {
+/**
+ * A staged or unstaged change of a file.
+ */
+export type TFileChange = {
+    status: TFileChangeStatus;
+    /**
+     * The path of the file, relative to the root of the worktree.
+     */
+    path: string;
+    /**
+     * The path the file is renamed or copied from, otherwise null.
+     */
+    origPath: string | null;
+    /**
+     * The similarity percentage of a renamed or copied file, otherwise null.
+     */
+    score: number | null;
+    /**
+     * The state of the file if it is a submodule, otherwise null.
+     */
+    submodule: TSubmoduleState | null;
+};
+
+/**
+ * How a file conflicts in a merge, from the side of the current branch ("us") and the merged one ("them").
+ */
+export type TConflictState =
+    'bothDeleted' | 'addedByUs' | 'deletedByThem' | 'addedByThem' | 'deletedByUs' | 'bothAdded' | 'bothModified';
+
+/**
+ * A file with conflicts that are not resolved yet.
+ */
+export type TConflictFile = {
+    path: string;
+    state: TConflictState;
+};
+
+/**
+ * The current branch and how it compares with its upstream.
+ */
+export type TBranchStatus = {
+    /**
+     * The name of the branch, or null if HEAD is detached.
+     */
+    head: string | null;
+    /**
+     * The commit of HEAD, or null if the branch has no commit yet.
+     */
+    commit: string | null;
+    /**
+     * The upstream branch, such as `origin/main`, or null if none is set.
+     */
+    upstream: string | null;
+    /**
+     * The number of commits of the branch that are not in its upstream. Zero without an upstream.
+     */
+    ahead: number;
+    /**
+     * The number of commits of the upstream that are not in the branch. Zero without an upstream.
+     */
+    behind: number;
+};
+
+/**
+ * The state of the worktree, from `git status --porcelain=v2`.
+ */
+export type TRepositoryStatus = {
+    branch: TBranchStatus;
+    /**
+     * The changes of the index against HEAD.
+     */
+    staged: TFileChange[];
+    /**
+     * The changes of the working tree against the index.
+     */
+    unstaged: TFileChange[];
+    untracked: string[];
+    /**
+     * The ignored files, only listed if asked for. A directory that is ignored as a whole is listed once, with
+     * a trailing slash.
+     */
+    ignored: string[];
+    conflicts: TConflictFile[];
+};
+
+/**
+ * What a diff does to a file.
+ */
+export type TDiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+/**
+ * The extended header of a file of a diff, the lines between `diff --git` and its first hunk.
+ */
+export type TDiffFileHeader = {
+    status: TDiffFileStatus;
+    /**
+     * The path of the file before the change, relative to the root of the worktree. The same as the new path
+     * unless the file is renamed or copied.
+     */
+    oldPath: string;
+    /**
+     * The path of the file after the change, relative to the root of the worktree.
+     */
+    newPath: string;
+    /**
+     * The mode of the file before the change, such as `100644`, or null if it did not exist or the diff does not
+     * tell it.
+     */
+    oldMode: string | null;
+    /**
+     * The mode of the file after the change, or null if it is deleted or the diff does not tell it.
+     */
+    newMode: string | null;
+    /**
+     * The similarity percentage of a renamed or copied file.
+     */
+    similarity: number | null;
+    isBinary: boolean;
+};
+
+/**
+ * The line counts of a file in a diff, from `git diff --numstat`.
+ */
+export type TDiffNumstat = {
+    /**
+     * The path of the file after the change.
+     */
+    path: string;
+    /**
+     * The path of the file before the change if it is renamed or copied, otherwise null.
+     */
+    oldPath: string | null;
+    /**
+     * The number of added lines, or null for a binary file.
+     */
+    added: number | null;
+    /**
+     * The number of removed lines, or null for a binary file.
+     */
+    removed: number | null;
+    isBinary: boolean;
+};
+
+/**
+ * A file of a diff in the raw format, from `git diff --raw`.
+ */
+export type TDiffRawEntry = {
+    /**
+     * What the diff does to the file. Besides the statuses of a patch, the type of a file can change, e.g. to a
+     * symbolic link, and the file can have conflicts.
+     */
+    status: TDiffFileStatus | 'typeChanged' | 'unmerged' | 'unknown';
+    /**
+     * The similarity percentage of a renamed or copied file, or the dissimilarity of a modified one.
+     */
+    score: number | null;
+    oldPath: string;
+    newPath: string;
+    /**
+     * The mode of the file before the change, `000000` if it did not exist.
+     */
+    oldMode: string;
+    /**
+     * The mode of the file after the change, `000000` if it is deleted.
+     */
+    newMode: string;
+    /**
+     * The object name of the file before the change, all zeros if it did not exist.
+     */
+    oldObject: string;
+    /**
+     * The object name of the file after the change, all zeros if it is deleted or not in the index yet.
+     */
+    newObject: string;
+};
+
+/**
+ * The totals of a diff, from `git diff --shortstat`.
+ */
+export type TDiffShortstat = {
+    filesChanged: number;
+    insertions: number;
+    deletions: number;
+};
+
+/**
+ * A piece of a line of a word diff.
+ */
+export type TWordDiffToken = {
+    type: 'context' | 'added' | 'removed';
+    text: string;
+};
+
+/**
+ * A hunk of a word diff, from `git diff --word-diff=porcelain`.
+ */
+export type TWordDiffHunk = {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    /**
+     * The lines of the hunk, each one a list of the words common to both sides, added or removed.
+     */
+    lines: TWordDiffToken[][];
+};
+
+/**
+ * A file of a word diff.
+ */
+export type TWordDiffFile = TDiffFileHeader & {
+    hunks: TWordDiffHunk[];
+};
+
+export type TDiffOutputFileConf = TDiffFileHeader & {
     file: string;
     fileName: string;
     index: string;
     aFile: string;
     bFile: string;
     hunks: string[];
+    /**
+     * The `GIT binary patch` section of a binary file, from `git diff --binary`.
+     */
+    binaryPatch: string | null;
+};
+
+/**
+ * A line of a diff hunk.
+ */
+export type TDiffHunkLine = {
+    type: 'context' | 'added' | 'removed';
+    /**
+     * The content of the line, without the leading `+`, `-` or space.
+     */
+    content: string;
+    /**
+     * Whether the line is followed by the `\ No newline at end of file` marker.
+     */
+    noNewlineAtEnd: boolean;
+    /**
+     * Whether the change is selected to be included in the accepted patch. Always false for context lines.
+     */
+    selected: boolean;
 };
 
 /**
  * Options for the git diff command.
+ *
+ * The sides compared depend on the range:
+ * - no `from`: the working tree with the index, or the index with HEAD if `cached` is set.
+ * - `from` only: the working tree with the commit, or the index with the commit if `cached` is set.
+ * - `from` and `to`: the two commits, `from..to`, or `from...to` if `mergeBase` is set.
  */
 export interface GitDiffOptions {
+    /**
+     * The commit the diff starts from, any revision such as a branch, a tag or `HEAD~2`.
+     */
+    from?: string;
+    /**
+     * The commit the diff goes to. The working tree or the index when omitted.
+     */
+    to?: string;
+    /**
+     * Compare with the merge base of the commits instead of `from` itself, so only the changes of `to` since
+     * it forked are shown. Without `to`, the merge base of `from` and HEAD is compared with the working tree.
+     */
+    mergeBase?: boolean;
     /**
      * The first branch to compare.
+     * @deprecated Use `from`.
      */
     branch1?: string;
     /**
      * The second branch to compare.
+     * @deprecated Use `to`.
      */
     branch2?: string;
     /**
      * The file to compare.
      */
     file?: string;
+    /**
+     * The pathspecs the diff is limited to, relative to the directory git runs in. Combined with `file`.
+     */
+    paths?: string[];
+    /**
+     * Compare the index with HEAD instead of the working tree with the index.
+     */
+    cached?: boolean;
+    /**
+     * Output the binary changes as a patch that can be applied.
+     */
+    binary?: boolean;
+    /**
+     * Colorize the output with the colors of the git configuration.
+     */
+    color?: boolean;
     /**
      * The first commit to compare.
+     * @deprecated Use `from`.
      */
     commit1?: string;
     /**
      * The second commit to compare.
+     * @deprecated Use `to`.
      */
     commit2?: string;
     /**
@@ -99,13 +391,669 @@ export interface GitDiffOptions {
     ignoreSpaceChangesBetweenLines?: boolean;
 }
 
+/**
+ * The commits to read from the log, see {@link FilesReportService#log}. Every filter given must match.
+ */
+export type TLogQuery = {
+    /**
+     * Only the commits after this one, which is excluded.
+     */
+    from?: string;
+    /**
+     * The last commit of the range. Defaults to `branch`.
+     */
+    to?: string;
+    /**
+     * The branch to read. Defaults to the current branch, or the current commit if HEAD is detached.
+     */
+    branch?: string;
+    /**
+     * List the files changed by every commit.
+     */
+    files?: boolean;
+    /**
+     * A regular expression matched against the name and email of the author.
+     */
+    author?: string;
+    /**
+     * A regular expression matched against the name and email of the committer.
+     */
+    committer?: string;
+    /**
+     * Only the commits more recent than a date, such as `2024-05-01` or `2 weeks ago`.
+     */
+    since?: string | Date;
+    /**
+     * Only the commits older than a date.
+     */
+    until?: string | Date;
+    /**
+     * Only the commits that change these pathspecs.
+     */
+    paths?: string[];
+    /**
+     * A regular expression matched against the lines of the message.
+     */
+    grep?: string;
+    /**
+     * Only the Conventional Commits of these types, such as `fix`.
+     */
+    type?: string | string[];
+    /**
+     * Only the Conventional Commits of these scopes.
+     */
+    scope?: string | string[];
+    /**
+     * Follow only the first parent of merges, to read the history of the branch itself.
+     */
+    firstParent?: boolean;
+    /**
+     * Whether merges are listed. Defaults to `include`.
+     */
+    merges?: 'include' | 'exclude' | 'only';
+    /**
+     * The maximum number of commits.
+     */
+    maxCount?: number;
+    /**
+     * The number of matching commits to skip, for paging.
+     */
+    skip?: number;
+};
+
+/**
+ * Which page of the log to read, see {@link FilesReportService#logPage}.
+ */
+export type TLogPageOptions = {
+    /**
+     * The number of commits of the page.
+     */
+    limit?: number;
+    /**
+     * The `cursor` of the previous page, to read the commits that follow it. Omit it to read the first page.
+     */
+    cursor?: string;
+};
+
+/**
+ * The commits of a page of the log.
+ */
+export type TLogPage = {
+    commits: GitLogCommitInfo[];
+    /**
+     * The cursor of the next page, or `null` if this page is the last one. It holds the hash of the last commit
+     * of the page and the position in the log after it, where the next page starts. If new commits have moved
+     * that commit, it is searched from the start of the log.
+     */
+    cursor: string | null;
+};
+
+/**
+ * Who authored or committed a commit, and when.
+ */
+export type TGitSignature = {
+    name: string;
+    email: string;
+    /**
+     * The date in strict ISO 8601 format, such as `2024-05-01T10:30:00+02:00`.
+     */
+    date: string;
+};
+
+/**
+ * A file changed by a commit, from `git log --name-status`.
+ */
+export type TCommitFileChange = {
+    status: TFileChangeStatus;
+    path: string;
+    /**
+     * The path the file is renamed or copied from, otherwise null.
+     */
+    origPath: string | null;
+    /**
+     * The similarity percentage of a renamed or copied file, otherwise null.
+     */
+    score: number | null;
+};
+
+/**
+ * A commit of the log, see {@link FilesReportService#log}.
+ */
 export type GitLogCommitInfo = {
     hash: string;
+    /**
+     * The hashes of the parent commits: none for a root commit, several for a merge.
+     */
+    parents: string[];
+    isMerge: boolean;
+    author: TGitSignature;
+    /**
+     * Who applied the commit, which differs from the author after a rebase, a cherry-pick or an applied patch.
+     */
+    committer: TGitSignature;
+    /**
+     * The date of the author, the same as `author.date`.
+     */
+    date: string;
+    /**
+     * The first line of the message, empty if the message is empty.
+     */
+    title: string;
+    /**
+     * The message after the title, trailers included.
+     */
+    body: string;
+    /**
+     * The refs pointing to the commit, such as `HEAD -> main`, `origin/main` or `tag: v1.0.0`.
+     */
+    refs: string[];
+    /**
+     * The names of the tags pointing to the commit.
+     */
+    tags: string[];
+    /**
+     * The trailers at the end of the message, such as `Signed-off-by`, unfolded.
+     */
+    trailers: TCommitTrailer[];
+    /**
+     * The files changed by the commit, only listed if asked for. Merges list no files.
+     */
+    files: TCommitFileChange[];
+};
+
+/**
+ * Sections in which the changelog groups the commits.
+ */
+export type TChangelogSection = 'added' | 'fixed' | 'documentation' | 'changed' | 'removed' | 'deprecated' | 'security';
+
+/**
+ * A commit type accepted by the commit workflow.
+ */
+export type TCommitType = {
+    /**
+     * The keyword used in the commit title, e.g. `feat`.
+     */
+    name: string;
+    /**
+     * The icon shown next to the type in prompts and listings.
+     */
+    icon: string;
+    /**
+     * A short explanation of when to use the type.
+     */
+    description: string;
+    /**
+     * The changelog section the commits of this type are listed in. Types without section are left out of the
+     * changelog.
+     */
+    changelogSection?: TChangelogSection;
+};
+
+/**
+ * Messages shown by the interactive prompts of the commit command.
+ */
+export type TCommitPrompts = {
+    type: string;
+    scope: string;
+    title: string;
+    body: string;
+    breaking: string;
+    breakingChange: string;
+    refs: string;
+};
+
+/**
+ * Rules checked by the commit linter.
+ */
+export type TCommitLintRules = {
+    /**
+     * The maximum length of the commit header.
+     */
+    maxTitleLength: number;
+    /**
+     * The commit types that require a body.
+     */
+    bodyRequiredTypes: string[];
+    /**
+     * The branches where the `protectedBranchForbiddenTypes` cannot be committed.
+     */
+    protectedBranches: string[];
+    /**
+     * The commit types forbidden on the protected branches.
+     */
+    protectedBranchForbiddenTypes: string[];
+};
+
+/**
+ * Project level configuration, loaded from `.taskgitrc.json`, `taskgit.config.json` or the `taskgit` key of
+ * `package.json`.
+ */
+export type TaskgitConfig = {
+    /**
+     * The commit types allowed in the project.
+     */
+    types: TCommitType[];
+    /**
+     * The allowed commit scopes. An empty list allows any scope.
+     */
+    scopes: string[];
+    /**
+     * The messages of the commit prompts.
+     */
+    prompts: TCommitPrompts;
+    /**
+     * The rules checked by the commit linter.
+     */
+    lint: TCommitLintRules;
+    /**
+     * The path of the file the configuration was loaded from, or null when the defaults are used.
+     */
+    configFile: string | null;
+};
+
+/**
+ * A trailer of a commit message, e.g. `Refs: #123` or `Co-authored-by: Jane <jane@example.com>`.
+ */
+export type TCommitTrailer = {
+    key: string;
+    value: string;
+};
+
+/**
+ * A commit message parsed following the Conventional Commits specification.
+ */
+export type ConventionalCommit = {
+    /**
+     * The first line of the message.
+     */
+    header: string;
+    /**
+     * The type of the commit, e.g. `feat`.
+     */
+    type: string;
+    /**
+     * The scope of the commit, or null if the header has no scope.
+     */
+    scope: string | null;
+    /**
+     * Whether the header has the `!` breaking marker.
+     */
+    breakingMarker: boolean;
+    /**
+     * Whether the commit introduces a breaking change, either by the `!` marker or a `BREAKING CHANGE` footer.
+     */
+    breaking: boolean;
+    /**
+     * The description that follows the type and scope in the header.
+     */
+    subject: string;
+    /**
+     * The paragraphs of the body, footers excluded.
+     */
+    body: string[];
+    /**
+     * The description of the `BREAKING CHANGE:` footer, or null if there is none.
+     */
+    breakingChange: string | null;
+    /**
+     * The footers of the message, `BREAKING CHANGE` excluded.
+     */
+    trailers: TCommitTrailer[];
+};
+
+/**
+ * A rule broken by a commit message.
+ */
+export type TCommitLintViolation = {
+    rule: 'header-format' | 'type-enum' | 'scope-enum' | 'title-max-length' | 'body-required' | 'protected-branch-type';
+    message: string;
+};
+
+/**
+ * The result of linting a commit message.
+ */
+export type TCommitLintResult = {
+    /**
+     * The hash of the linted commit, or null if the message does not belong to a commit yet.
+     */
+    hash: string | null;
+    header: string;
+    valid: boolean;
+    violations: TCommitLintViolation[];
+};
+
+/**
+ * The git hooks managed by taskgit.
+ */
+export type TGitHookName = 'commit-msg' | 'prepare-commit-msg' | 'pre-push';
+
+/**
+ * The installation state of a git hook.
+ */
+export type TGitHookStatus = {
+    name: TGitHookName;
+    /**
+     * The path of the hook script.
+     */
+    path: string;
+    /**
+     * Whether the hook script is managed by taskgit.
+     */
+    installed: boolean;
+    /**
+     * Whether a previous hook is kept and called before the taskgit one.
+     */
+    chained: boolean;
+    /**
+     * Whether a hook not managed by taskgit is installed.
+     */
+    foreign: boolean;
+};
+
+/**
+ * The parts of a commit message to build following the Conventional Commits specification.
+ */
+export type TConventionalCommitDraft = {
+    type: string;
+    scope?: string | null;
+    subject: string;
+    body?: string;
+    /**
+     * Whether to add the `!` breaking marker to the header. Implied by `breakingChange`.
+     */
+    breaking?: boolean;
+    /**
+     * The description of the `BREAKING CHANGE:` footer.
+     */
+    breakingChange?: string;
+    trailers?: TCommitTrailer[];
+};
+
+/**
+ * Options for running a process with {@link runCommand} or {@link runGit}.
+ */
+export type TRunOptions = {
+    /**
+     * The working directory of the process. Defaults to the current working directory.
+     */
+    cwd?: string;
+    /**
+     * Environment variables added to the ones of the current process.
+     */
+    env?: Record<string, string | undefined>;
+    /**
+     * Text written to the standard input of the process.
+     */
+    input?: string;
+    /**
+     * The maximum time in milliseconds the process can run before it is killed.
+     */
+    timeout?: number;
+    /**
+     * A signal to abort the process.
+     */
+    signal?: AbortSignal;
+    /**
+     * The maximum size in bytes of stdout and stderr. The process is killed if it is exceeded.
+     * Defaults to 64 MiB.
+     */
+    maxBuffer?: number;
+    /**
+     * Whether a non zero exit code is an error. Defaults to true.
+     */
+    reject?: boolean;
+};
+
+/**
+ * The result of a process run with {@link runCommand} or {@link runGit}.
+ */
+export type TRunResult = {
+    /**
+     * The executable and its arguments, for display purposes.
+     */
+    command: string;
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    /**
+     * The time the process took, in milliseconds.
+     */
+    duration: number;
+};
+
+/**
+ * Runs git for the services. {@link ChildProcessGitExecutor} runs the real git, {@link FakeGitExecutor} answers
+ * with canned responses.
+ */
+export interface GitExecutor {
+    /**
+     * Runs git with the given arguments.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} options - The options of the process, `cwd` is the directory of the context.
+     * @returns {Promise<TRunResult>} The output and exit code of git.
+     * @throws {CommandExecutionError} If git fails and `options.reject` is not false.
+     */
+    run(args: string[], options: TRunOptions): Promise<TRunResult>;
+    /**
+     * Runs git with the given arguments, yielding its stdout as it is written. Executors without it are run
+     * with {@link GitExecutor#run} and their whole stdout is yielded at once.
+     *
+     * @param {string[]} args - The arguments of git.
+     * @param {TRunOptions} options - The options of the process, `cwd` is the directory of the context.
+     * @returns {AsyncIterable<string>} The chunks of stdout.
+     * @throws {CommandExecutionError} Once the output is read, if git fails and `options.reject` is not false.
+     */
+    stream?(args: string[], options: TRunOptions): AsyncIterable<string>;
+}
+
+/**
+ * A canned response of {@link FakeGitExecutor} for a list of git arguments.
+ */
+export type TFakeGitResponse = {
+    /**
+     * The arguments of git the response answers to, matched exactly.
+     */
+    args: string[];
+    /**
+     * Defaults to an empty string.
+     */
+    stdout?: string;
+    /**
+     * Defaults to an empty string.
+     */
+    stderr?: string;
+    /**
+     * Defaults to 0.
+     */
+    exitCode?: number;
+};
+
+/**
+ * An entry of the git index, as listed by `git ls-files --stage`.
+ */
+export type TIndexEntry = {
+    /**
+     * The file mode, such as `100644`.
+     */
+    mode: string;
+    /**
+     * The hash of the blob.
+     */
+    object: string;
+};
+
+/**
+ * The outcome of restoring a file from a recovery point, see {@link StagingService#recover}.
+ */
+export type TRecoveryResult = {
+    filePath: string;
+    /**
+     * `restored` if the index entry and the working tree changes were restored, `conflict` if the working tree
+     * changed since and the patch no longer applies. The recovery point of a conflict is kept.
+     */
+    status: 'restored' | 'conflict';
+    /**
+     * The path of the saved patch, to apply it by hand on a conflict.
+     */
+    patchFile: string;
+};
+
+/**
+ * The formats the commands print their output in. `text` is meant for people, `json` and `yaml` print the
+ * documents below, whose schema only changes with {@link OUTPUT_SCHEMA_VERSION}.
+ */
+export type TOutputFormat = 'text' | 'json' | 'yaml';
+
+/**
+ * The files report, see {@link FilesReport#toDocument}. The fields are the ones of {@link TRepositoryStatus}.
+ */
+export type TFilesReportDocument = TRepositoryStatus & {
+    schemaVersion: number;
+};
+
+/**
+ * A tag and the commit it points to.
+ */
+export type TTagEntry = {
+    tag: string;
+    commit: string;
+};
+
+/**
+ * The tag listings, see {@link TaggerService.toDocument}.
+ */
+export type TTagsDocument = {
+    schemaVersion: number;
+    /**
+     * The local tags, or null if they were not listed.
+     */
+    local: TTagEntry[] | null;
+    /**
+     * The tags of the remote, or null if they were not listed.
+     */
+    remote: TTagEntry[] | null;
+};
+
+/**
+ * A commit listed in the changelog.
+ */
+export type TChangelogCommit = {
+    hash: string;
+    title: string;
+    body: string;
     author: {
         name: string;
         email: string;
     };
     date: string;
-    title: string;
-    body: string;
+};
+
+/**
+ * The parts of a semantic version, see {@link parseSemver}.
+ */
+export type TSemver = {
+    major: number;
+    minor: number;
+    patch: number;
+    /**
+     * The pre-release identifiers, such as `rc.1`, or `null` for a release.
+     */
+    prerelease: string | null;
+};
+
+/**
+ * The part of the version increased by a release, see {@link bumpSemver}.
+ */
+export type TReleaseType = 'major' | 'minor' | 'patch';
+
+/**
+ * The release to write the changelog of, see {@link ChangeLogService#resolveRelease}.
+ */
+export type TChangelogReleaseOptions = {
+    /**
+     * The commit after which the release starts. Defaults to the latest semantic version tag of `to`.
+     */
+    from?: string;
+    /**
+     * The last commit of the release. Defaults to `branch`.
+     */
+    to?: string;
+    /**
+     * The branch of the release. Defaults to the current branch.
+     */
+    branch?: string;
+    /**
+     * The version of the release. Defaults to the version of `package.json`, if it has not been released yet,
+     * or to the version after the latest tag, bumped by the commits.
+     */
+    version?: string;
+    /**
+     * List the commits that are not released yet, under {@link UNRELEASED_VERSION} instead of a version.
+     */
+    unreleased?: boolean;
+};
+
+/**
+ * A release and its commits, see {@link ChangeLogService#resolveRelease}.
+ */
+export type TChangelogRelease = {
+    /**
+     * The version of the release, or {@link UNRELEASED_VERSION}.
+     */
+    version: string;
+    /**
+     * Where the version comes from: the options, `package.json`, the bump of the latest tag, or the unreleased
+     * mode.
+     */
+    versionSource: 'option' | 'package' | 'bump' | 'unreleased';
+    /**
+     * The bump of the commits, or `null` if there are none.
+     */
+    bump: TReleaseType | null;
+    /**
+     * The latest semantic version tag of the release, or `null` if there is none.
+     */
+    previousTag: string | null;
+    /**
+     * The commit after which the release starts, or `null` if it starts with the history.
+     */
+    from: string | null;
+    to: string;
+    commits: GitLogCommitInfo[];
+};
+
+/**
+ * A release heading of a changelog file, see {@link parseChangelogReleases}.
+ */
+export type TChangelogReleaseHeading = {
+    /**
+     * The version as written, such as `v1.4.0`, or {@link UNRELEASED_VERSION}.
+     */
+    version: string;
+    /**
+     * The date of the heading as `YYYY-MM-DD`, or `null` if it has none.
+     */
+    date: string | null;
+    /**
+     * The index of the line of the heading, from zero.
+     */
+    line: number;
+};
+
+/**
+ * The changelog of a release, see {@link ChangeLogService#toDocument}.
+ */
+export type TChangelogDocument = {
+    schemaVersion: number;
+    version: string;
+    /**
+     * The date of the release, as `YYYY-MM-DD`.
+     */
+    date: string;
+    /**
+     * The commits of every section, every section always present. `breaking` lists the commits with a breaking
+     * change, which are also listed in the section of their type.
+     */
+    sections: Record<TChangelogSection | 'breaking', TChangelogCommit[]>;
 };
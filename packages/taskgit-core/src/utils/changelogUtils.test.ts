@@ -0,0 +1,53 @@
+import { parseChangelogReleases } from '@utils/changelogUtils';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('parseChangelogReleases', () => {
+    it('reads the release headings of the common styles', () => {
+        const markdown = [
+            '# Changelog',
+            '',
+            '## [Unreleased]',
+            '',
+            '## [v1.4.0](https://example.com/compare/v1.3.0...v1.4.0) (2024-05-01)',
+            '',
+            '### Fixed',
+            '',
+            '# 1.3.0 - 2024-04-01',
+            '',
+            '## 1.0.0-rc.1',
+            ''
+        ].join('\n');
+
+        assert.deepEqual(parseChangelogReleases(markdown), [
+            { version: 'Unreleased', date: null, line: 2 },
+            { version: 'v1.4.0', date: '2024-05-01', line: 4 },
+            { version: '1.3.0', date: '2024-04-01', line: 8 },
+            { version: '1.0.0-rc.1', date: null, line: 10 }
+        ]);
+    });
+
+    it('skips the headings in fenced code blocks', () => {
+        const markdown = [
+            '# Changelog',
+            '',
+            '```md',
+            '## 9.9.9 - 2024-01-01',
+            '~~~',
+            '## 9.9.8',
+            '```',
+            '',
+            '~~~',
+            '## 9.9.7',
+            '~~~',
+            '',
+            '## 1.0.0 - 2024-01-01'
+        ].join('\n');
+
+        assert.deepEqual(parseChangelogReleases(markdown), [{ version: '1.0.0', date: '2024-01-01', line: 12 }]);
+    });
+
+    it('reads nothing from other headings', () => {
+        assert.deepEqual(parseChangelogReleases('# Changelog\n\n### 1.0.0\n\n## Notes on 1.0.0\n'), []);
+    });
+});
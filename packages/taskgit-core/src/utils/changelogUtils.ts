@@ -0,0 +1,40 @@
+import { TChangelogReleaseHeading } from '@app-types';
+import { UNRELEASED_VERSION } from '@globals';
+
+const RELEASE_HEADING =
+    /^#{1,2}\s+\[?(v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?|unreleased)\]?(?:\([^)]*\))?(.*)$/i;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Find the release headings of a changelog, such as `## 1.4.0 - 2024-05-01`, `## [v1.4.0](https://…) (2024-05-01)`
+ * or `## [Unreleased]`. Headings of level one or two are read, and those in fenced code blocks are skipped. Any
+ * other heading, such as `# Changelog` or `### Fixed`, is part of the text around the releases.
+ *
+ * @param markdown The content of the changelog.
+ * @returns The release headings, in the order of the file.
+ */
+const parseChangelogReleases = (markdown: string): TChangelogReleaseHeading[] => {
+    const releases: TChangelogReleaseHeading[] = [];
+    let fence: string | null = null;
+
+    markdown.split('\n').forEach((text, line) => {
+        const marker = FENCE.exec(text)?.[1];
+        if (marker && (fence === null || fence === marker)) fence = fence === null ? marker : null;
+        if (marker || fence !== null) return;
+
+        const match = RELEASE_HEADING.exec(text.trimEnd());
+        if (!match) return;
+
+        const [, version, rest] = match;
+        const unreleased = version.toLowerCase() === UNRELEASED_VERSION.toLowerCase();
+        releases.push({
+            version: unreleased ? UNRELEASED_VERSION : version,
+            date: /\d{4}-\d{2}-\d{2}/.exec(rest)?.[0] ?? null,
+            line
+        });
+    });
+
+    return releases;
+};
+
+export { parseChangelogReleases };
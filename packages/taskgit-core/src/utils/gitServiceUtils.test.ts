@@ -0,0 +1,157 @@
+import { parseLog, parseNumstat, parseStatus } from '@utils/gitServiceUtils';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+/**
+ * Builds a commit of `git log -z` with the fields of `LOG_FORMAT`, followed by the given `--name-status` fields.
+ */
+const logRecord = (fields: string[], files: string[] = []) =>
+    `\x1e${fields.join('\0')}\0${files.length > 0 ? `\n${files.join('\0')}\0` : ''}`;
+
+describe('parseLog', () => {
+    const merge = logRecord([
+        'a1b2c3',
+        'p1 p2',
+        'Ana',
+        'ana@example.com',
+        '2024-05-01T10:30:00+02:00',
+        'Bob',
+        'bob@example.com',
+        '2024-05-02T09:00:00+02:00',
+        'HEAD -> main, tag: v1.2.0, origin/main',
+        "Merge branch 'feature'",
+        'A body\nover two lines\n\nRefs: #12\n',
+        'Refs: #12\n'
+    ]);
+    const fix = logRecord(
+        [
+            'd4e5f6',
+            'a1b2c3',
+            'Ana',
+            'ana@example.com',
+            '2024-05-03T08:00:00Z',
+            'Ana',
+            'ana@example.com',
+            '2024-05-03T08:00:00Z',
+            '',
+            'fix: keep = and : in the title',
+            '',
+            ''
+        ],
+        ['M', 'src/a file.ts', 'R097', 'old.ts', 'new.ts', 'D', 'gone.ts']
+    );
+
+    it('reads every field of a commit', () => {
+        const [commit] = parseLog(merge);
+
+        assert.equal(commit.hash, 'a1b2c3');
+        assert.deepEqual(commit.parents, ['p1', 'p2']);
+        assert.equal(commit.isMerge, true);
+        assert.deepEqual(commit.author, { name: 'Ana', email: 'ana@example.com', date: '2024-05-01T10:30:00+02:00' });
+        assert.deepEqual(commit.committer, {
+            name: 'Bob',
+            email: 'bob@example.com',
+            date: '2024-05-02T09:00:00+02:00'
+        });
+        assert.equal(commit.date, '2024-05-01T10:30:00+02:00');
+        assert.equal(commit.title, "Merge branch 'feature'");
+        assert.equal(commit.body, 'A body\nover two lines\n\nRefs: #12');
+        assert.deepEqual(commit.refs, ['HEAD -> main', 'tag: v1.2.0', 'origin/main']);
+        assert.deepEqual(commit.tags, ['v1.2.0']);
+        assert.deepEqual(commit.trailers, [{ key: 'Refs', value: '#12' }]);
+        assert.deepEqual(commit.files, []);
+    });
+
+    it('reads the changed files, with the source of renames', () => {
+        const commits = parseLog(merge + fix);
+
+        assert.equal(commits.length, 2);
+        assert.equal(commits[1].isMerge, false);
+        assert.equal(commits[1].title, 'fix: keep = and : in the title');
+        assert.deepEqual(commits[1].files, [
+            { status: 'modified', path: 'src/a file.ts', origPath: null, score: null },
+            { status: 'renamed', path: 'new.ts', origPath: 'old.ts', score: 97 },
+            { status: 'deleted', path: 'gone.ts', origPath: null, score: null }
+        ]);
+    });
+
+    it('reads an empty log', () => {
+        assert.deepEqual(parseLog(''), []);
+    });
+});
+
+describe('parseStatus', () => {
+    const status = [
+        '# branch.oid 0123abcd',
+        '# branch.head main',
+        '# branch.upstream origin/main',
+        '# branch.ab +2 -1',
+        '1 MM N... 100644 100644 100644 h1 h2 src/a file.ts',
+        '2 R. N... 100644 100644 100644 h1 h2 R100 new.ts',
+        'old.ts',
+        '1 .M SC.U 160000 160000 160000 h1 h2 vendor/lib',
+        'u UU N... 100644 100644 100644 100644 h1 h2 h3 conflict.ts',
+        '? notes.txt',
+        '! debug.log',
+        ''
+    ].join('\0');
+
+    it('reads the branch and its upstream', () => {
+        assert.deepEqual(parseStatus(status).branch, {
+            head: 'main',
+            commit: '0123abcd',
+            upstream: 'origin/main',
+            ahead: 2,
+            behind: 1
+        });
+    });
+
+    it('reads the staged and unstaged changes', () => {
+        const { staged, unstaged } = parseStatus(status);
+
+        assert.deepEqual(staged, [
+            { status: 'modified', path: 'src/a file.ts', origPath: null, score: null, submodule: null },
+            { status: 'renamed', path: 'new.ts', origPath: 'old.ts', score: 100, submodule: null }
+        ]);
+        assert.deepEqual(unstaged, [
+            { status: 'modified', path: 'src/a file.ts', origPath: null, score: null, submodule: null },
+            {
+                status: 'modified',
+                path: 'vendor/lib',
+                origPath: null,
+                score: null,
+                submodule: { commitChanged: true, modified: false, untracked: true }
+            }
+        ]);
+    });
+
+    it('reads the conflicts, the untracked and the ignored files', () => {
+        const { conflicts, untracked, ignored } = parseStatus(status);
+
+        assert.deepEqual(conflicts, [{ path: 'conflict.ts', state: 'bothModified' }]);
+        assert.deepEqual(untracked, ['notes.txt']);
+        assert.deepEqual(ignored, ['debug.log']);
+    });
+
+    it('reads a repository without commits or upstream', () => {
+        const { branch } = parseStatus('# branch.oid (initial)\0# branch.head main\0');
+
+        assert.deepEqual(branch, { head: 'main', commit: null, upstream: null, ahead: 0, behind: 0 });
+    });
+});
+
+describe('parseNumstat', () => {
+    it('reads the lines changed in every file', () => {
+        const stats = parseNumstat('3\t1\tsrc/a file.ts\0-\t-\tlogo.png\x002\t0\t\0old.ts\0new.ts\0');
+
+        assert.deepEqual(stats, [
+            { path: 'src/a file.ts', oldPath: null, added: 3, removed: 1, isBinary: false },
+            { path: 'logo.png', oldPath: null, added: null, removed: null, isBinary: true },
+            { path: 'new.ts', oldPath: 'old.ts', added: 2, removed: 0, isBinary: false }
+        ]);
+    });
+
+    it('reads an empty diff', () => {
+        assert.deepEqual(parseNumstat(''), []);
+    });
+});
@@ -1,4 +1,47 @@
-import { TFileListStatus } from '@app-types';
+import {
+    GitLogCommitInfo,
+    TCommitFileChange,
+    TConflictState,
+    TDiffNumstat,
+    TDiffRawEntry,
+    TDiffShortstat,
+    TFileChangeStatus,
+    TRepositoryStatus,
+    TWordDiffFile,
+    TWordDiffHunk,
+    TWordDiffToken
+} from '@app-types';
+import { AppError, ErrorHandler } from '@services/error-handler';
+import { DiffOutputFile } from '@services/git-service/diff/DiffOutputFile';
+
+const RAW_STATUSES: Record<string, TDiffRawEntry['status']> = {
+    A: 'added',
+    C: 'copied',
+    D: 'deleted',
+    M: 'modified',
+    R: 'renamed',
+    T: 'typeChanged',
+    U: 'unmerged',
+    X: 'unknown'
+};
+const STATUS_CODES: Record<string, TFileChangeStatus> = {
+    A: 'added',
+    C: 'copied',
+    D: 'deleted',
+    M: 'modified',
+    R: 'renamed',
+    T: 'typeChanged'
+};
+const CONFLICT_STATES: Record<string, TConflictState> = {
+    DD: 'bothDeleted',
+    AU: 'addedByUs',
+    UD: 'deletedByThem',
+    UA: 'addedByThem',
+    DU: 'deletedByUs',
+    AA: 'bothAdded',
+    UU: 'bothModified'
+};
+const WORD_DIFF_TOKENS: Record<string, TWordDiffToken['type']> = { ' ': 'context', '+': 'added', '-': 'removed' };
 
 /**
  * Parse a string containing a list of tags with their commit hashes and
@@ -22,29 +65,288 @@ const parseTagsList = (data: string) => {
 };
 
 /**
- * Process a string containing a list of files with their status (from Git)
- * and return an object with three properties: added, modified and deleted.
- * Each property is an array of strings, containing the names of the files
- * that have been added, modified or deleted.
+ * Parse the output of `git log -z` with the {@link LOG_FORMAT} format. Every commit starts with a record separator
+ * and has one field per placeholder, each ended by a NUL character, so messages can hold any text. With
+ * `--name-status`, the status and paths of every changed file follow, also separated by NUL characters.
+ *
+ * @param data The output to parse.
+ * @returns The commits, in the order of the log.
+ */
+const parseLog = (data: string): GitLogCommitInfo[] => {
+    return data
+        .split('\x1e')
+        .filter(record => record.length > 0)
+        .map(record => {
+            const fields = record.split('\0');
+            const [hash, parents, authorName, authorEmail, authorDate, name, email, date, refs, title, body] = fields;
+            const trailers = fields[11];
+            const files: TCommitFileChange[] = [];
+
+            // git puts a line break between the message and the files
+            const changes = fields.slice(12).map((field, i) => (i === 0 ? field.replace(/^\n/, '') : field));
+            for (let i = 0; i < changes.length; i++) {
+                const match = /^([A-Z])(\d*)$/.exec(changes[i]);
+                if (!match) continue;
+
+                const [, letter, score] = match;
+                const moved = letter === 'R' || letter === 'C';
+                files.push({
+                    status: STATUS_CODES[letter] ?? 'modified',
+                    path: changes[i + (moved ? 2 : 1)],
+                    origPath: moved ? changes[i + 1] : null,
+                    score: score ? Number(score) : null
+                });
+                i += moved ? 2 : 1;
+            }
+
+            const refList = refs.length > 0 ? refs.split(', ') : [];
+            const parentList = parents.length > 0 ? parents.split(' ') : [];
+            return {
+                hash,
+                parents: parentList,
+                isMerge: parentList.length > 1,
+                author: { name: authorName, email: authorEmail, date: authorDate },
+                committer: { name, email, date },
+                date: authorDate,
+                title,
+                body: body.trim(),
+                refs: refList,
+                tags: refList.filter(ref => ref.startsWith('tag: ')).map(ref => ref.slice('tag: '.length)),
+                trailers: trailers
+                    .split('\n')
+                    .map(line => /^([^:]+):\s*(.*)$/.exec(line))
+                    .flatMap(match => (match ? [{ key: match[1], value: match[2] }] : [])),
+                files
+            };
+        });
+};
+
+/**
+ * Parse the output of `git status --porcelain=v2 -z --branch`. Every entry is separated by a NUL character: the
+ * `# branch.*` headers, `1` for a changed file, `2` for a renamed or copied one followed by its original path,
+ * `u` for a file with conflicts, `?` for an untracked file and `!` for an ignored one.
+ *
+ * @param data The output to parse.
+ * @returns The branch, the changes of the index and the working tree, and the other files.
+ */
+const parseStatus = (data: string): TRepositoryStatus => {
+    const status: TRepositoryStatus = {
+        branch: { head: null, commit: null, upstream: null, ahead: 0, behind: 0 },
+        staged: [],
+        unstaged: [],
+        untracked: [],
+        ignored: [],
+        conflicts: []
+    };
+    const entries = data.split('\0');
+    // The fields are separated by spaces, but the path is the last field and can contain spaces
+    const fields = (entry: string, count: number) => {
+        const parts = entry.split(' ');
+        return [...parts.slice(0, count), parts.slice(count).join(' ')];
+    };
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const kind = entry.charAt(0);
+
+        if (kind === '#') {
+            const [, key, value] = fields(entry, 2);
+            if (key === 'branch.oid') status.branch.commit = value === '(initial)' ? null : value;
+            else if (key === 'branch.head') status.branch.head = value === '(detached)' ? null : value;
+            else if (key === 'branch.upstream') status.branch.upstream = value;
+            else if (key === 'branch.ab') {
+                const [ahead, behind] = value.split(' ');
+                status.branch.ahead = Number(ahead.slice(1));
+                status.branch.behind = Number(behind.slice(1));
+            }
+        } else if (kind === '1' || kind === '2') {
+            const renamed = kind === '2';
+            const parts = fields(entry, renamed ? 9 : 8);
+            const [, xy, sub] = parts;
+            const [letter, score] = renamed ? [parts[8].charAt(0), Number(parts[8].slice(1))] : ['', 0];
+            const path = parts[parts.length - 1];
+            const origPath = renamed ? entries[++i] : null;
+            const submodule =
+                sub.charAt(0) === 'S'
+                    ? { commitChanged: sub[1] === 'C', modified: sub[2] === 'M', untracked: sub[3] === 'U' }
+                    : null;
+
+            [xy.charAt(0), xy.charAt(1)].forEach((code, side) => {
+                if (code === '.') return;
+                const moved = code === letter;
+                (side === 0 ? status.staged : status.unstaged).push({
+                    status: STATUS_CODES[code] ?? 'modified',
+                    path,
+                    origPath: moved ? origPath : null,
+                    score: moved ? score : null,
+                    submodule
+                });
+            });
+        } else if (kind === 'u') {
+            const [, xy, , , , , , , , , path] = fields(entry, 10);
+            status.conflicts.push({ path, state: CONFLICT_STATES[xy] ?? 'bothModified' });
+        } else if (kind === '?') status.untracked.push(entry.slice(2));
+        else if (kind === '!') status.ignored.push(entry.slice(2));
+    }
+
+    return status;
+};
+
+/**
+ * Parse the output of `git diff --numstat -z`. Every file is `<added>\t<removed>\t<path>`, and a renamed or copied
+ * file has an empty path followed by its old and new paths, all of them separated by NUL characters. Binary files
+ * are counted as `-`.
+ *
+ * @param data The output to parse.
+ * @returns The line counts of every file.
+ */
+const parseNumstat = (data: string): TDiffNumstat[] => {
+    const fields = data.split('\0');
+    const stats: TDiffNumstat[] = [];
+
+    for (let i = 0; i < fields.length; i++) {
+        const match = /^(-|\d+)\t(-|\d+)\t(.*)$/s.exec(fields[i]);
+        if (!match) continue;
+
+        const [, added, removed, path] = match;
+        const isBinary = added === '-';
+        const renamed = path.length === 0;
+        stats.push({
+            path: renamed ? fields[i + 2] : path,
+            oldPath: renamed ? fields[i + 1] : null,
+            added: isBinary ? null : Number(added),
+            removed: isBinary ? null : Number(removed),
+            isBinary
+        });
+        if (renamed) i += 2;
+    }
+
+    return stats;
+};
+
+/**
+ * Parse the output of `git diff --raw -z`. Every file is
+ * `:<old mode> <new mode> <old object> <new object> <status><score>` followed by its path, or its old and new paths
+ * if it is renamed or copied, all of them separated by NUL characters.
  *
- * @param data The string to process.
- * @returns An object with three properties: added, modified and deleted.
+ * @param data The output to parse.
+ * @returns The entry of every file.
  */
-const processFiles = (data: string): TFileListStatus => {
-    const files = { added: [] as string[], modified: [] as string[], deleted: [] as string[] };
+const parseRawDiff = (data: string): TDiffRawEntry[] => {
+    const fields = data.split('\0');
+    const entries: TDiffRawEntry[] = [];
 
-    data.split('\n')
-        .map(line => line.trim())
-        .forEach(line => {
-            const status = line.charAt(0);
-            const file = line.slice(2).trim();
+    for (let i = 0; i < fields.length; i++) {
+        const match = /^:(\d{6}) (\d{6}) (\w+) (\w+) ([A-Z])(\d*)$/.exec(fields[i]);
+        if (!match) continue;
 
-            if (status === 'A') files.added.push(file);
-            else if (status === 'M') files.modified.push(file);
-            else if (status === 'D') files.deleted.push(file);
+        const [, oldMode, newMode, oldObject, newObject, letter, score] = match;
+        const paths = letter === 'R' || letter === 'C' ? 2 : 1;
+        entries.push({
+            status: RAW_STATUSES[letter] ?? 'unknown',
+            score: score ? Number(score) : null,
+            oldPath: fields[i + 1],
+            newPath: fields[i + paths],
+            oldMode,
+            newMode,
+            oldObject,
+            newObject
         });
+        i += paths;
+    }
+
+    return entries;
+};
 
-    return files;
+/**
+ * Parse the output of `git diff --shortstat`, such as ` 3 files changed, 10 insertions(+), 2 deletions(-)`. The
+ * counts that are zero are left out by git, and an empty diff has no output.
+ *
+ * @param data The output to parse.
+ * @returns The totals of the diff.
+ */
+const parseShortstat = (data: string): TDiffShortstat => {
+    const count = (pattern: RegExp) => Number(pattern.exec(data)?.[1] ?? 0);
+    return {
+        filesChanged: count(/(\d+) files? changed/),
+        insertions: count(/(\d+) insertions?\(\+\)/),
+        deletions: count(/(\d+) deletions?\(-\)/)
+    };
 };
 
-export { parseTagsList, processFiles };
+/**
+ * Parse the output of `git diff --word-diff=porcelain`. The headers of the files are the ones of a patch, and
+ * every line of a hunk holds a piece of text common to both sides, added or removed, until a `~` line ends the
+ * line of the file.
+ *
+ * @param data The output to parse.
+ * @returns The words changed in every file.
+ */
+const parseWordDiff = (data: string): TWordDiffFile[] => {
+    return data
+        .split(/^(?=diff --git )/m)
+        .filter(section => section.startsWith('diff --git '))
+        .map(section => {
+            const rows = section.split('\n');
+            let body = rows.findIndex(row => row.startsWith('@@'));
+            if (body === -1) body = rows.length;
+
+            const { status, oldPath, newPath, oldMode, newMode, similarity, isBinary } = DiffOutputFile.parse(
+                rows.slice(0, body).join('\n')
+            );
+            const hunks: TWordDiffHunk[] = [];
+            let line: TWordDiffToken[] = [];
+
+            rows.slice(body).forEach(row => {
+                const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(row);
+                const hunk = hunks[hunks.length - 1];
+                if (header) {
+                    const [, oldStart, oldLines = '1', newStart, newLines = '1'] = header;
+                    hunks.push({
+                        oldStart: Number(oldStart),
+                        oldLines: Number(oldLines),
+                        newStart: Number(newStart),
+                        newLines: Number(newLines),
+                        lines: []
+                    });
+                    line = [];
+                } else if (hunk && row === '~') {
+                    hunk.lines.push(line);
+                    line = [];
+                } else if (hunk && WORD_DIFF_TOKENS[row.charAt(0)]) {
+                    line.push({ type: WORD_DIFF_TOKENS[row.charAt(0)], text: row.slice(1) });
+                }
+            });
+
+            return { status, oldPath, newPath, oldMode, newMode, similarity, isBinary, hunks };
+        });
+};
+
+/**
+ * Checks that a name given to git, such as a branch, a tag or a remote, cannot be read as an option: `git fetch`
+ * runs the command of a remote named `--upload-pack=<command>`. The names are also passed after
+ * `--end-of-options` where git accepts it, but not every command does, such as `git checkout` and `git subtree`.
+ *
+ * @param name The name to check.
+ * @param kind What the name is, for the error message.
+ * @returns The name.
+ * @throws {AppError} If the name is empty or starts with `-`.
+ */
+const assertGitName = (name: string, kind: string): string => {
+    if (name.length > 0 && !name.startsWith('-')) return name;
+
+    const error = new AppError(`'${name}' is not a valid ${kind} name.`);
+    ErrorHandler.throw(error);
+    throw error;
+};
+
+export {
+    assertGitName,
+    parseLog,
+    parseNumstat,
+    parseRawDiff,
+    parseShortstat,
+    parseStatus,
+    parseTagsList,
+    parseWordDiff
+};
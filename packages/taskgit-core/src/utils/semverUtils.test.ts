@@ -0,0 +1,68 @@
+import { bumpSemver, compareSemver, parseSemver } from '@utils/semverUtils';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const semver = (version: string) => {
+    const parsed = parseSemver(version);
+    assert.ok(parsed, `${version} is a semantic version`);
+    return parsed;
+};
+
+describe('parseSemver', () => {
+    it('reads the parts of a version or a tag', () => {
+        assert.deepEqual(parseSemver('v2.0.0-rc.1'), { major: 2, minor: 0, patch: 0, prerelease: 'rc.1' });
+        assert.deepEqual(parseSemver('1.4.10+build.5'), { major: 1, minor: 4, patch: 10, prerelease: null });
+    });
+
+    it('reads nothing from other names', () => {
+        ['1.4', '01.0.0', 'release-1.0.0', '1.0.0-', 'nightly'].forEach(name => assert.equal(parseSemver(name), null));
+    });
+});
+
+describe('compareSemver', () => {
+    it('orders the pre-releases before their release', () => {
+        const ordered = [
+            '1.0.0-1',
+            '1.0.0-alpha',
+            '1.0.0-alpha.1',
+            '1.0.0-alpha.beta',
+            '1.0.0-beta',
+            '1.0.0-beta.2',
+            '1.0.0-beta.11',
+            '1.0.0-rc.1',
+            '1.0.0',
+            '1.0.1-0',
+            '1.2.0',
+            '1.10.0'
+        ];
+        const sorted = [...ordered].reverse().sort((a, b) => compareSemver(semver(a), semver(b)));
+
+        assert.deepEqual(sorted, ordered);
+    });
+
+    it('orders numeric identifiers before the other ones', () => {
+        assert.ok(compareSemver(semver('1.0.0-1'), semver('1.0.0--a')) < 0);
+        assert.ok(compareSemver(semver('1.0.0-rc.9'), semver('1.0.0-rc.a')) < 0);
+    });
+
+    it('ignores the prefix and the build metadata', () => {
+        assert.equal(compareSemver(semver('v1.0.0+build.1'), semver('1.0.0')), 0);
+    });
+});
+
+describe('bumpSemver', () => {
+    it('increases a release', () => {
+        assert.equal(bumpSemver(semver('1.4.2'), 'major'), '2.0.0');
+        assert.equal(bumpSemver(semver('1.4.2'), 'minor'), '1.5.0');
+        assert.equal(bumpSemver(semver('1.4.2'), 'patch'), '1.4.3');
+    });
+
+    it('releases a pre-release unless the bump goes beyond it', () => {
+        assert.equal(bumpSemver(semver('2.0.0-rc.1'), 'major'), '2.0.0');
+        assert.equal(bumpSemver(semver('2.0.0-rc.1'), 'patch'), '2.0.0');
+        assert.equal(bumpSemver(semver('2.1.0-rc.1'), 'minor'), '2.1.0');
+        assert.equal(bumpSemver(semver('2.1.0-rc.1'), 'major'), '3.0.0');
+        assert.equal(bumpSemver(semver('2.1.1-rc.1'), 'patch'), '2.1.1');
+        assert.equal(bumpSemver(semver('2.1.1-rc.1'), 'minor'), '2.2.0');
+    });
+});
@@ -0,0 +1,63 @@
+import { TReleaseType, TSemver } from '@app-types';
+
+const SEMVER =
+    /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a semantic version, such as `1.4.0`, `v2.0.0-rc.1` or `1.0.0+build.5`. Build metadata is ignored.
+ *
+ * @param version The version, or a tag named after it with an optional leading `v`.
+ * @returns The parts of the version, or `null` if it is not a semantic version.
+ */
+const parseSemver = (version: string): TSemver | null => {
+    const match = SEMVER.exec(version.trim());
+    if (!match) return null;
+
+    const [, major, minor, patch, prerelease] = match;
+    return { major: Number(major), minor: Number(minor), patch: Number(patch), prerelease: prerelease ?? null };
+};
+
+/**
+ * Compare two semantic versions by precedence: a pre-release comes before its release, and its identifiers are
+ * compared one by one, numerically when they are numbers, which come before the other identifiers.
+ *
+ * @returns A negative number if `a` comes first, a positive one if `b` does, and zero if they are equal.
+ */
+const compareSemver = (a: TSemver, b: TSemver): number => {
+    const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (core !== 0 || a.prerelease === b.prerelease) return core;
+    if (a.prerelease === null) return 1;
+    if (b.prerelease === null) return -1;
+
+    const left = a.prerelease.split('.');
+    const right = b.prerelease.split('.');
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        if (left[i] === right[i]) continue;
+        const leftNumeric = /^\d+$/.test(left[i]);
+        const rightNumeric = /^\d+$/.test(right[i]);
+        if (leftNumeric && rightNumeric) return Number(left[i]) - Number(right[i]);
+        if (leftNumeric !== rightNumeric) return leftNumeric ? -1 : 1;
+        return left[i] < right[i] ? -1 : 1;
+    }
+    return left.length - right.length;
+};
+
+/**
+ * Get the next version of a release. As `npm version` does, a pre-release is released as its own version when
+ * the bump does not go beyond it: `2.0.0-rc.1` becomes `2.0.0` with any bump, while `2.1.1-rc.1` becomes `2.1.1`
+ * with a patch bump and `2.2.0` with a minor one.
+ *
+ * @param version The current version.
+ * @param release The kind of release.
+ * @returns The next version, without pre-release.
+ */
+const bumpSemver = (version: TSemver, release: TReleaseType): string => {
+    const { major, minor, patch, prerelease } = version;
+    const pending = prerelease !== null;
+
+    if (release === 'major') return pending && minor === 0 && patch === 0 ? `${major}.0.0` : `${major + 1}.0.0`;
+    if (release === 'minor') return pending && patch === 0 ? `${major}.${minor}.0` : `${major}.${minor + 1}.0`;
+    return pending ? `${major}.${minor}.${patch}` : `${major}.${minor}.${patch + 1}`;
+};
+
+export { bumpSemver, compareSemver, parseSemver };